@@ -0,0 +1,43 @@
+// Seanime loads src/my-plugin.ts as a single script, so code that also needs to be
+// importable (and testable) lives in its own module and is copied into the payload
+// between `// #region <path>` and `// #endregion <path>` markers, exports stripped.
+//
+//   node scripts/inline-modules.mjs          rewrite the payload
+//   node scripts/inline-modules.mjs --check  exit 1 if the payload is out of date
+import { readFileSync, writeFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const ROOT = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+export const PAYLOAD_PATH = resolve(ROOT, 'src/my-plugin.ts');
+
+const REGION_REGEX = /^([ \t]*)\/\/ #region (\S+)([^\r\n]*\r?\n)[\s\S]*?^[ \t]*\/\/ #endregion \2[ \t]*$/gm;
+
+// The module's text as it appears in the payload: `export` dropped, line endings matched.
+function toInlined(source, eol) {
+    return source
+        .replace(/\r\n?/g, '\n')
+        .replace(/^export /gm, '')
+        .replace(/\n+$/, '\n')
+        .replace(/\n/g, eol);
+}
+
+// Returns `payload` with every region replaced by the current contents of its module.
+export function inlineModules(payload, readModule = path => readFileSync(resolve(ROOT, path), 'utf8')) {
+    const eol = payload.includes('\r\n') ? '\r\n' : '\n';
+    return payload.replace(REGION_REGEX, (match, indent, path, rest) =>
+        `${indent}// #region ${path}${rest}${toInlined(readModule(path), eol)}${indent}// #endregion ${path}`);
+}
+
+if (process.argv[1] && resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+    const payload = readFileSync(PAYLOAD_PATH, 'utf8');
+    const inlined = inlineModules(payload);
+    if (process.argv.includes('--check')) {
+        if (inlined !== payload) {
+            console.error('src/my-plugin.ts is out of date, run `npm run inline`.');
+            process.exit(1);
+        }
+    } else if (inlined !== payload) {
+        writeFileSync(PAYLOAD_PATH, inlined);
+    }
+}
@@ -0,0 +1,29 @@
+// ===================================================================================
+// ANILIST RESPONSES
+// Reads GraphQL responses that AniList could only answer in part. Pure functions, copied
+// into src/my-plugin.ts by `npm run inline` like the comment parser.
+// ===================================================================================
+
+export interface GraphqlError {
+    message: string;
+    status?: number;
+    path?: (string | number)[];
+}
+
+export interface GraphqlResponse {
+    data?: { [alias: string]: any } | null;
+    errors?: GraphqlError[];
+}
+
+// A query that asks for several items under aliases (`t1: Thread(id: 1) { ... }`) gets a 404
+// error for each item that no longer exists and `null` in its place, next to the items that do.
+// Returns the aliases that came back missing when every error is such a 404, or null when the
+// response failed for any other reason and has to be treated as an error.
+export function missingAliases(response: GraphqlResponse): string[] | null {
+    const { data, errors = [] } = response;
+    if (!data || !errors.every(error => error.status === 404)) return null;
+    const missing = Object.keys(data).filter(alias => data[alias] === null);
+    // A 404 that names an alias which did come back isn't about a missing item.
+    if (errors.some(error => error.path && !missing.includes(String(error.path[0])))) return null;
+    return missing;
+}
@@ -0,0 +1,659 @@
+// ===================================================================================
+// COMMENT PARSER
+// Pure functions with no dependency on Seanime or the UI. `parseComment` turns a raw
+// AniList comment body into `CommentSegment[]`, which the tray renders.
+//
+// Parsing happens in two passes. `parseBlocks` walks the text line by line and
+// recognises block constructs (code fences, centering, quotes, headings...),
+// recursing into their bodies. Everything else is a paragraph, which is split
+// into tokens by `tokenizeInline` and assembled by `parseInlineTokens`.
+// Delimiters that never find a partner are kept as plain text.
+//
+// Seanime loads the plugin payload as one script, so it can't import this file.
+// `npm run inline` copies it into src/my-plugin.ts with the exports stripped.
+// ===================================================================================
+
+// Comment AST: one node type per kind of segment `renderSegment` knows how to draw.
+export interface TextSegment { type: 'text'; content: string; }
+export interface BreakSegment { type: 'br'; content: ''; }
+export interface RuleSegment { type: 'hr'; content: ''; }
+export interface CodeSegment { type: 'inline-code' | 'code-block'; content: string; }
+export interface FormatSegment { type: 'bold' | 'italic' | 'bold-italic' | 'underline' | 'strike'; content: CommentSegment[]; }
+export interface SpoilerSegment { type: 'spoiler'; content: CommentSegment[]; }
+export interface BlockquoteSegment { type: 'blockquote'; content: CommentSegment[]; }
+export interface CenterSegment { type: 'center'; content: CommentSegment[]; }
+export interface HeadingSegment { type: 'heading'; content: CommentSegment[]; level: number; }
+export interface ImageSegment { type: 'image'; content: string; url?: string; width?: string; } // width is "300" (px) or "50%"
+export interface GallerySegment { type: 'gallery'; content: ImageSegment[]; }
+export interface LinkSegment { type: 'link'; content: string | CommentSegment[]; url: string; }
+export interface UserLinkSegment { type: 'user-link'; content: string; username: string; }
+export interface YoutubeSegment { type: 'youtube'; content: string; url: string; } // content is the video ID
+export interface VideoSegment { type: 'video'; content: string; url: string; host: string; } // content is the file name
+export interface ParagraphSegment { type: 'paragraph'; content: CommentSegment[]; }
+export interface DivSegment { type: 'div'; content: CommentSegment[]; align?: TextAlign; }
+export interface SpanSegment { type: 'span'; content: CommentSegment[]; }
+// List and table cells hold their own segment lists: one entry per item, or per row then per cell.
+export interface ListSegment { type: 'list'; content: CommentSegment[][]; }
+export interface OrderedListSegment { type: 'ordered-list'; content: CommentSegment[][]; start: number; }
+export interface TableSegment { type: 'table'; header: CommentSegment[][]; content: CommentSegment[][][]; align: (TextAlign | null)[]; }
+export type TextAlign = 'left' | 'center' | 'right';
+export type CommentSegment =
+    | TextSegment | BreakSegment | RuleSegment | CodeSegment | FormatSegment | SpoilerSegment
+    | BlockquoteSegment | CenterSegment | HeadingSegment | ImageSegment | LinkSegment | UserLinkSegment
+    | ParagraphSegment | DivSegment | SpanSegment | ListSegment | OrderedListSegment | TableSegment
+    | YoutubeSegment | VideoSegment | GallerySegment;
+
+function decodeHtmlEntities(text: string): string {
+    if (!text) return "";
+    return text
+        .replace(/&#(\d+);/g, (match, dec) => String.fromCodePoint(parseInt(dec, 10)))
+        .replace(/&#x([0-9a-f]+);/gi, (match, hex) => String.fromCodePoint(parseInt(hex, 16)))
+        .replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&nbsp;/g, ' ')
+        .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+}
+
+// --- Inline tokenizer ---
+
+type InlineToken =
+    | { kind: 'text'; raw: string }
+    | { kind: 'newline'; raw: string }
+    | { kind: 'node'; raw: string; node: CommentSegment }
+    | { kind: 'delim'; raw: string; canOpen: boolean; canClose: boolean }
+    | { kind: 'tag'; raw: string; name: string; closing: boolean; attributes: string };
+
+// Self-contained constructs. `trigger` is a cheap prefix check so the regex only runs where it can match.
+const INLINE_ATOM_RULES: { trigger: string; regex: RegExp; build: (m: RegExpMatchArray) => CommentSegment }[] = [
+    { trigger: '`', regex: /^`([^`\n]+)`/, build: m => ({ type: 'inline-code', content: m[1] }) },
+    { trigger: '<', regex: /^<a\s+href="([^"]+)"[^>]*>\s*(<img[^>]*\s(?:data-src|src)="([^"]+)"[^>]*>)\s*<\/a>/i, build: m => ({ type: 'image', content: m[3], url: m[1], width: parseWidthAttribute(m[2]) }) },
+    { trigger: '<', regex: /^<img[^>]*\s(?:data-src|src)="([^"]+)"[^>]*>/i, build: m => ({ type: 'image', content: m[1], width: parseWidthAttribute(m[0]) }) },
+    { trigger: '<', regex: /^<a\s+href="([^"]+)"[^>]*>([\s\S]*?)<\/a>/i, build: m => ({ type: 'link', content: parseInline(m[2]), url: m[1] }) },
+    // Image and link targets may hold balanced parentheses, as in `File_(2019).png`.
+    { trigger: 'img', regex: /^img(\d*%?)\(((?:[^()\s]|\([^()\s]*\))+)\)/, build: m => ({ type: 'image', content: m[2], width: m[1] || undefined }) },
+    { trigger: 'youtube(', regex: /^youtube\(([^)\s]+)\)/, build: m => buildYoutubeSegment(m[1]) },
+    { trigger: 'video(', regex: /^video\(([^)\s]+)\)/, build: m => buildVideoSegment(m[1]) },
+    { trigger: '[', regex: /^\[([^\]\n]+)\]\(((?:[^()\s]|\([^()\s]*\))+)\)/, build: m => ({ type: 'link', content: m[1], url: m[2] }) },
+    // Trailing punctuation is left out so "see https://anilist.co." doesn't swallow the full stop.
+    { trigger: 'http', regex: /^https?:\/\/[^\s<>"'{}|\\^`[\]]*[^\s<>"'{}|\\^`[\].,!?;:)]/, build: m => VIDEO_FILE_REGEX.test(m[0]) ? buildVideoSegment(m[0]) : { type: 'link', content: m[0], url: m[0] } },
+];
+
+function parseWidthAttribute(tag: string): string | undefined {
+    return tag.match(/\swidth\s*=\s*["']?(\d+%?)/i)?.[1];
+}
+
+export const VIDEO_FILE_REGEX = /\.(?:webm|mp4)(?:[?#]|$)/i;
+
+// `youtube()` accepts either a bare video ID or any of the usual YouTube URL shapes.
+export function buildYoutubeSegment(value: string): YoutubeSegment {
+    const match = value.match(/(?:youtu\.be\/|[?&]v=|\/embed\/|\/shorts\/)([\w-]{6,})/);
+    const videoId = match ? match[1] : value;
+    return { type: 'youtube', content: videoId, url: `https://www.youtube.com/watch?v=${videoId}` };
+}
+
+function buildVideoSegment(url: string): VideoSegment {
+    const host = url.match(/^https?:\/\/([^/?#]+)/i)?.[1] || '';
+    const lastPathPart = url.replace(/[?#].*$/, '').split('/').pop() || url;
+    let fileName = lastPathPart;
+    try {
+        fileName = decodeURIComponent(lastPathPart);
+    } catch (e) {
+        // Keep the raw name if it isn't valid percent-encoding.
+    }
+    return { type: 'video', content: fileName, url, host };
+}
+
+const INLINE_TAG_REGEX = /^<(\/?)(b|strong|i|em|u|s|strike|del|span|p|div)(\s[^>]*)?>/i;
+const TILDE_DELIMITERS = ['~~~', '~!', '!~', '~~'];
+
+function isWhitespace(char: string | undefined): boolean {
+    return !char || /\s/.test(char);
+}
+
+function tokenizeInline(source: string): InlineToken[] {
+    const tokens: InlineToken[] = [];
+    let buffer = '';
+    const flush = () => {
+        if (buffer) tokens.push({ kind: 'text', raw: buffer });
+        buffer = '';
+    };
+
+    let pos = 0;
+    scan: while (pos < source.length) {
+        const char = source[pos];
+
+        if (char === '\n') {
+            flush();
+            tokens.push({ kind: 'newline', raw: char });
+            pos++;
+            continue;
+        }
+
+        for (const rule of INLINE_ATOM_RULES) {
+            if (!source.startsWith(rule.trigger, pos)) continue;
+            const match = source.slice(pos).match(rule.regex);
+            if (match) {
+                flush();
+                tokens.push({ kind: 'node', raw: match[0], node: rule.build(match) });
+                pos += match[0].length;
+                continue scan;
+            }
+        }
+
+        if (char === '@' && !/\w/.test(source[pos - 1] || '')) {
+            const match = source.slice(pos).match(/^@([\w-]+)/);
+            if (match) {
+                flush();
+                tokens.push({ kind: 'node', raw: match[0], node: { type: 'user-link', content: match[0], username: match[1] } });
+                pos += match[0].length;
+                continue;
+            }
+        }
+
+        if (char === '<') {
+            const match = source.slice(pos).match(INLINE_TAG_REGEX);
+            if (match) {
+                flush();
+                tokens.push({ kind: 'tag', raw: match[0], name: match[2].toLowerCase(), closing: match[1] === '/', attributes: match[3] || '' });
+                pos += match[0].length;
+                continue;
+            }
+        }
+
+        if (char === '~' || char === '!') {
+            const delim = TILDE_DELIMITERS.find(d => source.startsWith(d, pos));
+            if (delim) {
+                const prev = source[pos - 1];
+                const next = source[pos + delim.length];
+                flush();
+                tokens.push({
+                    kind: 'delim',
+                    raw: delim,
+                    // Spoilers are commonly written with inner padding ("~! text !~"), so they ignore flanking.
+                    // "!~text!~" also opens one, but only flanked, so a padded closer on its own stays text.
+                    canOpen: delim === '~!' || !isWhitespace(next),
+                    canClose: delim === '!~' || (delim !== '~!' && !isWhitespace(prev)),
+                });
+                pos += delim.length;
+                continue;
+            }
+        }
+
+        if (char === '*' || char === '_') {
+            let runEnd = pos;
+            while (source[runEnd] === char) runEnd++;
+            const prev = source[pos - 1];
+            const next = source[runEnd];
+            // snake_case and similar words never contain emphasis.
+            if (char === '_' && /[a-z0-9]/i.test(prev || '') && /[a-z0-9]/i.test(next || '')) {
+                buffer += source.slice(pos, runEnd);
+                pos = runEnd;
+                continue;
+            }
+            const runLength = runEnd - pos;
+            const delimLength = Math.min(runLength, 3);
+            // Anything beyond a triple delimiter is literal text in front of it.
+            buffer += char.repeat(runLength - delimLength);
+            flush();
+            tokens.push({ kind: 'delim', raw: char.repeat(delimLength), canOpen: !isWhitespace(next), canClose: !isWhitespace(prev) });
+            pos = runEnd;
+            continue;
+        }
+
+        buffer += char;
+        pos++;
+    }
+    flush();
+    return tokens;
+}
+
+// --- Inline parser ---
+
+const DELIMITER_SEGMENT_TYPES: { [delim: string]: FormatSegment['type'] | 'center' | 'spoiler' } = {
+    '***': 'bold-italic', '___': 'bold-italic',
+    '**': 'bold', '__': 'bold',
+    '*': 'italic', '_': 'italic',
+    '~~': 'strike',
+    '~~~': 'center',
+    '~!': 'spoiler', '!~': 'spoiler',
+};
+const TAG_SEGMENT_TYPES: { [tag: string]: FormatSegment['type'] | 'span' | 'paragraph' | 'div' } = {
+    b: 'bold', strong: 'bold',
+    i: 'italic', em: 'italic',
+    u: 'underline',
+    s: 'strike', strike: 'strike', del: 'strike',
+    span: 'span', p: 'paragraph', div: 'div',
+};
+
+// Reads `align="center"` or `style="text-align: center"` from an HTML attribute string.
+function parseAlignAttribute(attributes: string): TextAlign | undefined {
+    const match = attributes.match(/(?:align\s*=\s*["']?|text-align\s*:\s*)(left|center|right)/i);
+    return match ? match[1].toLowerCase() as TextAlign : undefined;
+}
+
+function findClosingToken(tokens: InlineToken[], openIndex: number, end: number): number {
+    const opener = tokens[openIndex];
+    let depth = 0;
+
+    if (opener.kind === 'delim') {
+        if (!opener.canOpen || !DELIMITER_SEGMENT_TYPES[opener.raw]) return -1;
+        const closer = opener.raw === '~!' ? '!~' : opener.raw;
+        for (let i = openIndex + 1; i < end; i++) {
+            const token = tokens[i];
+            if (token.kind !== 'delim') continue;
+            if (opener.raw === '~!' && token.raw === '~!') {
+                depth++;
+            } else if (token.raw === closer && token.canClose) {
+                if (depth === 0) return i;
+                depth--;
+            }
+        }
+    } else if (opener.kind === 'tag' && !opener.closing) {
+        for (let i = openIndex + 1; i < end; i++) {
+            const token = tokens[i];
+            if (token.kind !== 'tag' || token.name !== opener.name) continue;
+            if (!token.closing) {
+                depth++;
+            } else {
+                if (depth === 0) return i;
+                depth--;
+            }
+        }
+    }
+    return -1;
+}
+
+function pushText(segments: CommentSegment[], text: string) {
+    const last = segments[segments.length - 1];
+    if (last && last.type === 'text') last.content += text;
+    else segments.push({ type: 'text', content: text });
+}
+
+function parseInlineTokens(tokens: InlineToken[], start: number, end: number): CommentSegment[] {
+    const segments: CommentSegment[] = [];
+    let i = start;
+    while (i < end) {
+        const token = tokens[i];
+        if (token.kind === 'text') {
+            pushText(segments, token.raw);
+        } else if (token.kind === 'newline') {
+            segments.push({ type: 'br', content: '' });
+        } else if (token.kind === 'node') {
+            segments.push(token.node);
+        } else {
+            const close = findClosingToken(tokens, i, end);
+            // Unmatched or empty pairs fall back to their literal text.
+            if (close <= i + 1) {
+                pushText(segments, token.raw);
+            } else {
+                const content = parseInlineTokens(tokens, i + 1, close);
+                if (token.kind === 'tag' && token.name === 'div') {
+                    segments.push({ type: 'div', content, align: parseAlignAttribute(token.attributes) });
+                } else {
+                    const type = token.kind === 'tag' ? TAG_SEGMENT_TYPES[token.name] : DELIMITER_SEGMENT_TYPES[token.raw];
+                    segments.push({ type, content } as CommentSegment);
+                }
+                i = close;
+            }
+        }
+        i++;
+    }
+    return groupImageRuns(segments);
+}
+
+// Two or more images separated only by whitespace or line breaks become one gallery.
+function groupImageRuns(segments: CommentSegment[]): CommentSegment[] {
+    const grouped: CommentSegment[] = [];
+    let i = 0;
+    while (i < segments.length) {
+        if (segments[i].type !== 'image') {
+            grouped.push(segments[i]);
+            i++;
+            continue;
+        }
+        const images: ImageSegment[] = [];
+        let runEnd = i;
+        for (let j = i; j < segments.length; j++) {
+            const segment = segments[j];
+            if (segment.type === 'image') {
+                images.push(segment);
+                runEnd = j + 1;
+            } else if (!(segment.type === 'br' || (segment.type === 'text' && !segment.content.trim()))) {
+                break;
+            }
+        }
+        if (images.length > 1) grouped.push({ type: 'gallery', content: images });
+        else grouped.push(...segments.slice(i, runEnd));
+        i = runEnd;
+    }
+    return grouped;
+}
+
+function parseInline(text: string): CommentSegment[] {
+    if (!text) return [];
+    const tokens = tokenizeInline(text);
+    return parseInlineTokens(tokens, 0, tokens.length);
+}
+
+// --- Block parser ---
+
+const HR_LINE_REGEX = /^(?:-{3,}|_{3,}|\*{3,}|<hr\s*\/?>)\s*$/i;
+// Ordered markers stop at three digits so a line opening with a year ("2019. was a great year") stays prose.
+const BLOCK_START_REGEX = /^(?:```|~~~|>|<(?:blockquote|center|p|div|ul|ol)[\s>]|#<center>|#{1,5}\s|<h[1-6]>|\s*(?:[-*+]|\d{1,3}[.)])\s)/i;
+const LIST_ITEM_REGEX = /^(\s*)([-*+]|\d{1,3}[.)])\s+(.*)$/;
+const TABLE_SEPARATOR_REGEX = /^\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+
+function lineEndAt(source: string, pos: number): number {
+    const end = source.indexOf('\n', pos);
+    return end === -1 ? source.length : end;
+}
+
+function trimBlockNewlines(text: string): string {
+    return text.replace(/^\n/, '').replace(/\n$/, '');
+}
+
+// Matches `<tag ...>...</tag>` at `pos`, counting nested tags of the same name.
+function matchHtmlBlock(source: string, pos: number, tag: string): { attributes: string; inner: string; end: number } | null {
+    const open = source.slice(pos).match(new RegExp(`^<${tag}(\\s[^>]*)?>`, 'i'));
+    if (!open) return null;
+    const closeTag = `</${tag}>`;
+    const closeIndex = findBalancedClose(source.toLowerCase(), pos + open[0].length, `<${tag}`, closeTag);
+    if (closeIndex === -1) return null;
+    return { attributes: open[1] || '', inner: source.slice(pos + open[0].length, closeIndex), end: closeIndex + closeTag.length };
+}
+
+function splitTableRow(line: string): string[] {
+    return line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+}
+
+function isTableStart(source: string, pos: number): boolean {
+    const lineEnd = lineEndAt(source, pos);
+    const separatorEnd = lineEndAt(source, lineEnd + 1);
+    const separator = source.slice(lineEnd + 1, separatorEnd);
+    return source.slice(pos, lineEnd).includes('|') && separator.includes('|') && TABLE_SEPARATOR_REGEX.test(separator);
+}
+
+function parseTable(source: string, pos: number): { segments: CommentSegment[]; end: number } {
+    const headerEnd = lineEndAt(source, pos);
+    const separatorEnd = lineEndAt(source, headerEnd + 1);
+    const headerCells = splitTableRow(source.slice(pos, headerEnd));
+    const align = splitTableRow(source.slice(headerEnd + 1, separatorEnd)).map(cell => {
+        if (cell.startsWith(':') && cell.endsWith(':')) return 'center';
+        if (cell.endsWith(':')) return 'right';
+        if (cell.startsWith(':')) return 'left';
+        return null;
+    });
+
+    const rows: CommentSegment[][][] = [];
+    let end = separatorEnd;
+    while (end + 1 < source.length) {
+        const rowEnd = lineEndAt(source, end + 1);
+        const row = source.slice(end + 1, rowEnd);
+        if (!row.includes('|')) break;
+        const cells = splitTableRow(row);
+        rows.push(headerCells.map((_, index) => parseInline(cells[index] || '')));
+        end = rowEnd;
+    }
+
+    return { segments: [{ type: 'table', header: headerCells.map(cell => parseInline(cell)), content: rows, align }], end };
+}
+
+// Consecutive `- item` / `1. item` lines at the same indentation. Deeper-indented lines belong to
+// the item above them and are parsed as blocks, which is how nested lists come out.
+function parseMarkdownList(source: string, pos: number): { segments: CommentSegment[]; end: number } | null {
+    const first = source.slice(pos, lineEndAt(source, pos)).match(LIST_ITEM_REGEX);
+    if (!first) return null;
+    const indent = first[1].length;
+    const ordered = /\d/.test(first[2]);
+
+    const items: string[][] = [];
+    let childIndent = 0;
+    let end = pos;
+    let cursor = pos;
+    while (cursor < source.length) {
+        const lineEnd = lineEndAt(source, cursor);
+        const line = source.slice(cursor, lineEnd);
+        const item = line.match(LIST_ITEM_REGEX);
+        const lineIndent = line.length - line.replace(/^\s+/, '').length;
+
+        if (item && lineIndent === indent) {
+            if (/\d/.test(item[2]) !== ordered) break;
+            items.push([item[3]]);
+            childIndent = 0;
+        } else if (line.trim() && lineIndent > indent) {
+            if (!childIndent) childIndent = lineIndent;
+            items[items.length - 1].push(line.slice(Math.min(childIndent, lineIndent)));
+        } else {
+            break;
+        }
+        end = lineEnd;
+        cursor = lineEnd + 1;
+    }
+
+    const content = items.map(lines => parseBlocks(lines.join('\n')));
+    const segment: CommentSegment = ordered
+        ? { type: 'ordered-list', content, start: parseInt(first[2], 10) }
+        : { type: 'list', content };
+    return { segments: [segment], end };
+}
+
+function parseHtmlList(tag: 'ul' | 'ol', attributes: string, inner: string): CommentSegment {
+    const content: CommentSegment[][] = [];
+    let pos = 0;
+    while (pos < inner.length) {
+        const item = matchHtmlBlock(inner, pos, 'li');
+        if (item) {
+            content.push(parseBlocks(item.inner.trim()));
+            pos = item.end;
+            continue;
+        }
+        // Stray text between items (usually just whitespace) is kept with the nearest item.
+        const nextItem = inner.toLowerCase().indexOf('<li', pos + 1);
+        const strayText = inner.slice(pos, nextItem === -1 ? inner.length : nextItem).trim();
+        if (strayText) content.push(parseBlocks(strayText));
+        pos = nextItem === -1 ? inner.length : nextItem;
+    }
+    if (tag === 'ul') return { type: 'list', content };
+    const start = attributes.match(/start\s*=\s*["']?(\d+)/i);
+    return { type: 'ordered-list', content, start: start ? parseInt(start[1], 10) : 1 };
+}
+
+// Index of the `close` that balances an already consumed `open`, or -1.
+function findBalancedClose(source: string, from: number, open: string, close: string): number {
+    let depth = 0;
+    let pos = from;
+    while (pos < source.length) {
+        const nextOpen = source.indexOf(open, pos);
+        const nextClose = source.indexOf(close, pos);
+        if (nextClose === -1) return -1;
+        if (nextOpen !== -1 && nextOpen < nextClose) {
+            depth++;
+            pos = nextOpen + open.length;
+        } else {
+            if (depth === 0) return nextClose;
+            depth--;
+            pos = nextClose + close.length;
+        }
+    }
+    return -1;
+}
+
+function startsBlock(source: string, pos: number): boolean {
+    const line = source.slice(pos, lineEndAt(source, pos));
+    if (BLOCK_START_REGEX.test(line) || HR_LINE_REGEX.test(line) || isTableStart(source, pos)) return true;
+    return line.startsWith('~!') && !line.includes('!~');
+}
+
+// Parses the block construct starting at `pos`, or returns null when the text there is a plain paragraph.
+function parseBlock(source: string, pos: number): { segments: CommentSegment[]; end: number } | null {
+    const lineEnd = lineEndAt(source, pos);
+    const line = source.slice(pos, lineEnd);
+
+    if (line.startsWith('```')) {
+        const close = source.indexOf('```', pos + 3);
+        if (close !== -1) {
+            return { segments: [{ type: 'code-block', content: trimBlockNewlines(source.slice(pos + 3, close)) }], end: close + 3 };
+        }
+    }
+
+    if (line.startsWith('~~~')) {
+        const close = source.indexOf('~~~', pos + 3);
+        if (close !== -1) {
+            return { segments: [{ type: 'center', content: parseBlocks(trimBlockNewlines(source.slice(pos + 3, close))) }], end: close + 3 };
+        }
+    }
+
+    // Single-line spoilers are left to the inline parser so text after them stays on the same line.
+    if (line.startsWith('~!')) {
+        const close = findBalancedClose(source, pos + 2, '~!', '!~');
+        if (close > lineEnd) {
+            return { segments: [{ type: 'spoiler', content: parseBlocks(trimBlockNewlines(source.slice(pos + 2, close))) }], end: close + 2 };
+        }
+    }
+
+    if (line.startsWith('<')) {
+        for (const tag of ['blockquote', 'center', 'p', 'div', 'ul', 'ol']) {
+            const html = matchHtmlBlock(source, pos, tag);
+            if (!html) continue;
+            if (tag === 'ul' || tag === 'ol') {
+                return { segments: [parseHtmlList(tag, html.attributes, html.inner)], end: html.end };
+            }
+            const content = parseBlocks(html.inner.trim());
+            const segment: CommentSegment = tag === 'div'
+                ? { type: 'div', content, align: parseAlignAttribute(html.attributes) }
+                : { type: tag === 'p' ? 'paragraph' : tag as 'blockquote' | 'center', content };
+            return { segments: [segment], end: html.end };
+        }
+    }
+
+    if (line.startsWith('>')) {
+        const quotedLines: string[] = [];
+        let end = pos;
+        let cursor = pos;
+        while (cursor < source.length && source[cursor] === '>') {
+            const quotedEnd = lineEndAt(source, cursor);
+            quotedLines.push(source.slice(cursor, quotedEnd).replace(/^>\s?/, ''));
+            end = quotedEnd;
+            cursor = quotedEnd + 1;
+        }
+        return { segments: [{ type: 'blockquote', content: parseBlocks(quotedLines.join('\n')) }], end };
+    }
+
+    const legacyCenter = line.match(/^#<center>(.*)/);
+    if (legacyCenter) {
+        let content = legacyCenter[1];
+        if (content.startsWith('____') && content.endsWith('____')) {
+            content = `___${content.slice(4, -4)}___`;
+        }
+        return { segments: [{ type: 'center', content: parseInline(content) }], end: lineEnd };
+    }
+
+    const heading = line.match(/^(#{1,5})\s+(.*)/);
+    if (heading) {
+        return { segments: [{ type: 'heading', content: parseInline(heading[2]), level: heading[1].length }], end: lineEnd };
+    }
+
+    const htmlHeading = source.slice(pos).match(/^<h([1-6])>([\s\S]*?)<\/h\1>/i);
+    if (htmlHeading) {
+        return { segments: [{ type: 'heading', content: parseInline(htmlHeading[2]), level: parseInt(htmlHeading[1], 10) }], end: pos + htmlHeading[0].length };
+    }
+
+    if (HR_LINE_REGEX.test(line)) {
+        return { segments: [{ type: 'hr', content: '' }], end: lineEnd };
+    }
+
+    if (isTableStart(source, pos)) {
+        return parseTable(source, pos);
+    }
+
+    const list = parseMarkdownList(source, pos);
+    if (list) return list;
+
+    return null;
+}
+
+function parseBlocks(source: string): CommentSegment[] {
+    const segments: CommentSegment[] = [];
+    let pos = 0;
+    while (pos < source.length) {
+        if (source[pos] === '\n') {
+            segments.push({ type: 'br', content: '' });
+            pos++;
+            continue;
+        }
+
+        const block = parseBlock(source, pos);
+        if (block) {
+            segments.push(...block.segments);
+            pos = block.end;
+            continue;
+        }
+
+        // A paragraph runs until a blank line or a line that opens a block, so inline
+        // formatting can span the line breaks inside it.
+        let end = lineEndAt(source, pos);
+        while (end + 1 < source.length && source[end + 1] !== '\n' && !startsBlock(source, end + 1)) {
+            end = lineEndAt(source, end + 1);
+        }
+        segments.push(...parseInline(source.slice(pos, end)));
+        pos = end;
+    }
+    return groupImageRuns(segments);
+}
+
+export function parseComment(text: string): CommentSegment[] {
+    if (!text) return [];
+    const source = decodeHtmlEntities(text.replace(/\r\n?/g, '\n').replace(/<br\s*\/?>/gi, '\n'));
+    return parseBlocks(source);
+}
+
+// Calls `visit` for every segment in the tree, parents before their children.
+export function walkSegments(segments: CommentSegment[], visit: (segment: CommentSegment) => void) {
+    const walk = (list: CommentSegment[]) => {
+        for (const segment of list) {
+            visit(segment);
+            if (segment.type === 'list' || segment.type === 'ordered-list') segment.content.forEach(walk);
+            else if (segment.type === 'table') [segment.header, ...segment.content].forEach(row => row.forEach(walk));
+            else if (Array.isArray(segment.content)) walk(segment.content as CommentSegment[]);
+        }
+    };
+    walk(segments);
+}
+
+// Every image URL in a segment tree, in reading order.
+export function collectImageUrls(segments: CommentSegment[]): string[] {
+    const urls: string[] = [];
+    walkSegments(segments, segment => { if (segment.type === 'image') urls.push(segment.content); });
+    return urls;
+}
+
+// The readable text of a comment, used for search. Link targets and media URLs are left out.
+export function segmentsToText(segments: CommentSegment[]): string {
+    const parts: string[] = [];
+    walkSegments(segments, segment => {
+        if (segment.type === 'text' || segment.type === 'inline-code' || segment.type === 'code-block' || segment.type === 'user-link') parts.push(segment.content);
+        else if (segment.type === 'link' && typeof segment.content === 'string') parts.push(segment.content);
+    });
+    return parts.join(' ');
+}
+
+export function hasSegmentType(segments: CommentSegment[], types: CommentSegment['type'][]): boolean {
+    let found = false;
+    walkSegments(segments, segment => { if (types.includes(segment.type)) found = true; });
+    return found;
+}
+
+// Splits `text` around case-insensitive occurrences of `query` so matches can be highlighted.
+export function splitOnMatches(text: string, query: string): { text: string; match: boolean }[] {
+    if (!query) return [{ text, match: false }];
+    const parts: { text: string; match: boolean }[] = [];
+    const lowerText = text.toLowerCase();
+    const lowerQuery = query.toLowerCase();
+    let pos = 0;
+    let index;
+    while ((index = lowerText.indexOf(lowerQuery, pos)) !== -1) {
+        if (index > pos) parts.push({ text: text.slice(pos, index), match: false });
+        parts.push({ text: text.slice(index, index + query.length), match: true });
+        pos = index + query.length;
+    }
+    if (pos < text.length) parts.push({ text: text.slice(pos), match: false });
+    return parts;
+}
@@ -0,0 +1,95 @@
+// ===================================================================================
+// EPISODE TITLES
+// Reads which episode, range of episodes or special a discussion thread is about from its
+// title. Pure functions, copied into src/my-plugin.ts by `npm run inline` like the comment parser.
+// ===================================================================================
+
+export type EpisodeSpecialKind = 'ova' | 'ona' | 'special' | 'recap' | 'movie';
+// An episode thread title, classified. `start`/`end` can be fractional ("Ep 12.5") and are 0 for
+// an unnumbered special. `seasonOffset` has already been subtracted from absolute numbering.
+export interface EpisodeTitleInfo {
+    start: number;
+    end: number;
+    special: EpisodeSpecialKind | null;
+    season: number | null;
+    seasonOffset: number;
+    confidence: 'high' | 'medium' | 'low';
+}
+
+// Episode thread titles: "S2E04", "Season 2 Episode 4", "Episodes 1-3", "Ep. 12.5", "OVA 2", "Special".
+const SEASON_EPISODE_REGEX = /\bS(\d{1,2})\s*E(\d+(?:\.\d+)?)\b/i;
+const SEASON_THEN_EPISODE_REGEX = /\bSeason\s*(\d+)\W{0,3}(?:Episode|Ep\.?)\s*(\d+(?:\.\d+)?)/i;
+const EPISODE_RANGE_REGEX = /\b(Episodes?|Eps?\.?)\s*(\d+(?:\.\d+)?)(?:\s*(?:[-–~&]|to)\s*(\d+(?:\.\d+)?))?/i;
+const EPISODE_SPECIAL_REGEX = /\b(OVA|OAD|ONA|Specials?|SP|Recap|Movie)\b\.?\s*(\d+)?/i;
+const EPISODE_SPECIAL_LABELS: { [kind in EpisodeSpecialKind]: string } = { ova: 'OVA', ona: 'ONA', special: 'SP', recap: 'Recap', movie: 'Movie' };
+// Numbered threads that must agree before a season offset is applied, so one mistyped title can't renumber a season.
+const SEASON_OFFSET_MIN_THREADS = 2;
+
+// Reads what an episode thread covers from its title, or null when it names no episode or special.
+// Titles spelling the episode out ("Episode", "S2E04") are trusted more than abbreviations; numbers
+// past `seasonOffset` are treated as absolute and shifted into the season, which lowers trust again.
+export function classifyEpisodeTitle(title: string, seasonOffset: number = 0): EpisodeTitleInfo | null {
+    let start = 0, end = 0;
+    let season: number | null = null;
+    let confidence: EpisodeTitleInfo['confidence'] = 'high';
+
+    const seasonMatch = title.match(SEASON_EPISODE_REGEX) || title.match(SEASON_THEN_EPISODE_REGEX);
+    const rangeMatch = seasonMatch ? null : title.match(EPISODE_RANGE_REGEX);
+    if (seasonMatch) {
+        season = parseInt(seasonMatch[1], 10);
+        start = end = parseFloat(seasonMatch[2]);
+    } else if (rangeMatch) {
+        start = parseFloat(rangeMatch[2]);
+        end = rangeMatch[3] ? parseFloat(rangeMatch[3]) : start;
+        if (!/^Episodes?$/i.test(rangeMatch[1])) confidence = 'medium';
+    }
+
+    // A title that spells its episode out ("Overlord OVA Episode 1", "[SP] Episode 5") is about that
+    // episode; special keywords only decide when nothing else numbers it.
+    const explicitEpisode = !!seasonMatch || (!!rangeMatch && confidence === 'high');
+    const specialMatch = explicitEpisode ? null : title.match(EPISODE_SPECIAL_REGEX);
+    const specialWord = specialMatch?.[1].toLowerCase();
+    const special: EpisodeSpecialKind | null = !specialWord ? null
+        : specialWord === 'oad' ? 'ova'
+        : specialWord.startsWith('sp') ? 'special'
+        : specialWord as EpisodeSpecialKind;
+    // "Episode 0" is a numbered episode (often a prologue), so a match is what counts, not a non-zero number.
+    const numbered = !!seasonMatch || !!rangeMatch;
+    if (special && !numbered && specialMatch![2]) {
+        start = end = parseInt(specialMatch![2], 10);
+    }
+    if (!numbered && !special) return null;
+    if (special && !numbered) confidence = 'medium';
+
+    let appliedOffset = 0;
+    if (seasonOffset > 0 && !special && season === null && start > seasonOffset) {
+        start -= seasonOffset;
+        end -= seasonOffset;
+        appliedOffset = seasonOffset;
+        confidence = confidence === 'high' ? 'medium' : 'low';
+    }
+    return { start: Math.min(start, end), end: Math.max(start, end), special, season, seasonOffset: appliedOffset, confidence };
+}
+
+// Last regular episode a thread title refers to ("Episode 11", "Eps 3-5"), or 0 when it names none.
+export function highestMentionedEpisode(title: string): number {
+    const info = classifyEpisodeTitle(title);
+    return info && !info.special ? info.end : 0;
+}
+
+// Sequels often keep counting from the previous season ("Episode 13" for a 12-episode season's
+// first episode). When enough numbered threads lie past the season's length, the lowest one is
+// taken as its first episode, as long as every one of them then fits inside the season.
+export function inferSeasonOffset(titles: EpisodeTitleInfo[], episodeCount: number | null): number {
+    if (!episodeCount) return 0;
+    const numbered = titles.filter(info => !info.special && info.season === null && info.start > 0);
+    if (numbered.length < SEASON_OFFSET_MIN_THREADS || numbered.some(info => info.start <= episodeCount)) return 0;
+    const offset = Math.floor(Math.min(...numbered.map(info => info.start))) - 1;
+    return numbered.every(info => info.end - offset <= episodeCount) ? offset : 0;
+}
+
+export function formatEpisodeLabel(info: EpisodeTitleInfo): string {
+    const span = info.special && !info.start ? '' : info.start === info.end ? `${info.start}` : `${info.start}–${info.end}`;
+    if (!info.special) return span;
+    return span ? `${EPISODE_SPECIAL_LABELS[info.special]} ${span}` : EPISODE_SPECIAL_LABELS[info.special];
+}
@@ -5,6 +5,112 @@
 
 const ENABLE_DEBUG_LOGGING = false; // Set to `true` to see raw data, `false` for normal use. (in the Console!)
 
+// Keys for everything the plugin persists with $storage.
+const STORAGE_KEYS = {
+    spoilerSafety: 'spoilerSafety',
+    includeRelatedMedia: 'includeRelatedMedia',
+    episodeFinishedAction: 'episodeFinishedAction',
+    commentSort: 'commentSort',
+    threadVisits: 'threadVisits',
+    followedThreads: 'followedThreads',
+    notificationsSeenAt: 'notificationsSeenAt',
+    drafts: 'drafts',
+    cacheIndex: 'cacheIndex',
+    cacheEntryPrefix: 'cache:',
+};
+
+// How long cached responses are shown without a background refresh.
+const CACHE_TTL_MS = {
+    threads: 5 * 60 * 1000,
+    comments: 2 * 60 * 1000,
+    franchise: 24 * 60 * 60 * 1000,
+    mangaEntry: 5 * 60 * 1000,
+};
+const CACHE_MAX_ENTRIES = 60;
+
+// AniList request scheduling. The API allows roughly 90 requests per minute per token; once
+// `X-RateLimit-Remaining` drops to the reserve, requests are spaced out across the window.
+const REQUEST_CONCURRENCY = 2;
+const REQUEST_MAX_RETRIES = 4;
+const REQUEST_BASE_DELAY_MS = 1000;
+const REQUEST_MAX_DELAY_MS = 60 * 1000;
+const RATE_LIMIT_RESERVE = 5;
+
+// Threads whose last visit is remembered for unread markers; the oldest visits are dropped first.
+const THREAD_VISITS_MAX = 500;
+
+// Followed threads and forum notifications are checked this often; followed threads are fetched in
+// batches of this many per request.
+const BACKGROUND_POLL_INTERVAL_MS = 5 * 60 * 1000;
+const FOLLOW_POLL_BATCH_SIZE = 20;
+
+// AniList notification types that belong to the forum, and how the notifications view words each one.
+const FORUM_NOTIFICATION_TYPES = ['THREAD_COMMENT_REPLY', 'THREAD_COMMENT_MENTION', 'THREAD_COMMENT_LIKE', 'THREAD_SUBSCRIBED'] as const;
+
+// Store key the progress-update hook uses to tell the tray which episode was just finished.
+const PROGRESS_UPDATED_STORE_KEY = 'discussions.progressUpdated';
+const FORUM_NOTIFICATION_DESCRIPTIONS: Record<ForumNotificationType, string> = {
+    'THREAD_COMMENT_REPLY': "replied to your comment in",
+    'THREAD_COMMENT_MENTION': "mentioned you in",
+    'THREAD_COMMENT_LIKE': "liked your comment in",
+    'THREAD_SUBSCRIBED': "commented in a thread you're subscribed to:",
+};
+
+// Label of the "After an episode" button for each setting.
+const EPISODE_FINISHED_ACTION_LABELS: Record<EpisodeFinishedAction, string> = { suggest: 'Suggest thread', open: 'Open thread', off: 'Do nothing' };
+
+// Drafts are written this long after the last keystroke; only the most recent ones are kept.
+const DRAFT_SAVE_DELAY_MS = 800;
+const DRAFTS_MAX = 50;
+
+// AniList forum category holding the per-episode "Release Discussion" threads.
+const RELEASE_DISCUSSION_CATEGORY_ID = 5;
+
+// With related seasons included, relations of these types are followed from the current media,
+// up to this many media of the same type in total.
+const FRANCHISE_RELATION_TYPES = ['PREQUEL', 'SEQUEL', 'PARENT'];
+const FRANCHISE_MAX_MEDIA = 6;
+
+// Manga have no per-chapter release threads, so chapter threads are found by scanning this many
+// pages of the manga's newest threads for chapter and volume titles. Older ones stay in the general list.
+const CHAPTER_SCAN_MAX_PAGES = 4;
+const CHAPTER_TITLE_REGEX = /\b(?:Chapters?|Chs?\.?)\s*(\d+)(?:\s*[-–~]\s*(\d+))?/i;
+const VOLUME_TITLE_REGEX = /\b(?:Volumes?|Vols?\.?)\s*(\d+)(?:\s*[-–~]\s*(\d+))?/i;
+
+// Categories offered by the forum browser, in the order AniList's forum lists them.
+const FORUM_CATEGORIES = [
+    { id: 1, name: 'Anime' },
+    { id: 2, name: 'Manga' },
+    { id: 3, name: 'Light Novels' },
+    { id: 4, name: 'Visual Novels' },
+    { id: RELEASE_DISCUSSION_CATEGORY_ID, name: 'Release Discussion' },
+    { id: 7, name: 'General' },
+    { id: 8, name: 'News' },
+    { id: 9, name: 'Music' },
+    { id: 10, name: 'Gaming' },
+    { id: 15, name: 'Recommendations' },
+    { id: 16, name: 'Forum Games' },
+    { id: 17, name: 'Misc' },
+    { id: 11, name: 'Site Feedback' },
+    { id: 12, name: 'Bug Reports' },
+    { id: 13, name: 'Site Announcements' },
+    { id: 14, name: 'List Customisation' },
+    { id: 18, name: 'AniList Apps' },
+];
+
+// Thread list sorts, shared by a media's general discussions and the forum browser.
+const THREAD_SORT_OPTIONS = [
+    { label: "Last Reply", value: 'REPLIED_AT_DESC' },
+    { label: "Newest", value: 'CREATED_AT_DESC' },
+    { label: "Replies", value: 'REPLY_COUNT_DESC' },
+    { label: "Views", value: 'VIEW_COUNT_DESC' }
+];
+
+// Reply nesting shown inline before a branch moves to its own "continue this thread" view,
+// and the depth from which branches start collapsed.
+const REPLY_NESTING_DEPTH = 4;
+const REPLY_COLLAPSE_DEPTH = 2;
+
 // Interfaces to define our data structures
 interface User {
     name: string;
@@ -23,29 +129,1229 @@ interface Thread {
     replyUser: User | null;
     repliedAt: number;
     viewCount: number;
-    categories?: { name: string }[];
+    categories?: { id: number; name: string }[];
+    // The media the thread is tagged with. Edits send these back so a thread never moves to another media.
+    mediaCategories?: { id: number; title: { userPreferred: string } }[];
+    // Set when threads from related seasons are mixed into a media's list.
+    sourceMedia?: { id: number; title: string };
+    // Set on a manga's chapter and volume threads.
+    chapterRange?: ChapterRange;
+    // What an episode thread's title says it covers; `episodeNumber` is its first regular episode.
+    episode?: EpisodeTitleInfo;
+}
+type MediaType = 'ANIME' | 'MANGA';
+// What happens when an episode finishes playing: its thread is suggested, opened, or nothing happens.
+type EpisodeFinishedAction = 'suggest' | 'open' | 'off';
+// The chapters or volumes a manga thread is about, e.g. "Chapter 12" or "Vol. 3-5".
+interface ChapterRange {
+    kind: 'chapter' | 'volume';
+    start: number;
+    end: number;
+}
+// One season of a franchise; `startDate` is YYYYMMDD so seasons sort in release order.
+interface FranchiseMedia {
+    id: number;
+    title: string;
+    startDate: number;
+    episodes?: number | null;
+}
+// What the thread list shows for a media: every episode thread plus the general threads loaded so far.
+interface ThreadsSnapshot {
+    episodes: Thread[];
+    general: Thread[];
+    page: number;
+    hasNextPage: boolean;
+    // With related seasons included: the franchise in release order, and how far each media's general threads are loaded.
+    franchise?: FranchiseMedia[];
+    franchisePages?: { [mediaId: number]: { page: number; hasNextPage: boolean } };
+}
+// What the forum browser lists: one category (or all of them), optionally narrowed by a title search.
+interface ForumQuery {
+    categoryId: number | null;
+    search: string;
+}
+interface ForumSnapshot {
+    threads: Thread[];
+    page: number;
+    hasNextPage: boolean;
+}
+// A followed thread as of the last poll; new replies are detected against these numbers.
+interface FollowedThread {
+    title: string;
+    replyCount: number;
+    repliedAt: number;
+}
+type ForumNotificationType = typeof FORUM_NOTIFICATION_TYPES[number];
+interface ForumNotification {
+    id: number;
+    type: ForumNotificationType;
+    createdAt: number;
+    commentId: number;
+    user: User | null;
+    thread: Thread | null;
+}
+// Unsent composer text. `commentId` is the parent comment for replies and the edited comment for edits.
+type DraftKind = 'comment' | 'reply' | 'edit' | 'thread' | 'thread-edit';
+interface Draft {
+    kind: DraftKind;
+    body: string;
+    title?: string;
+    threadId?: number;
+    threadTitle?: string;
+    commentId?: number;
+    mediaId?: number;
+    mediaTitle?: string;
+    mediaType?: MediaType;
+    updatedAt: number;
+}
+type DraftTarget = Omit<Draft, 'body' | 'title' | 'updatedAt'>;
+// What the user had seen of a thread when they last opened it.
+interface ThreadVisit {
+    lastSeenCommentId: number;
+    replyCount: number;
+    seenAt: number;
+}
+// Newest/Oldest are sorted by AniList; the others need every page loaded and are sorted here.
+type CommentSortMode = 'ID_DESC' | 'ID' | 'TOP' | 'DISCUSSED' | 'ACTIVE';
+// Filters applied to the loaded comments of the open thread; empty strings and false mean "any".
+interface CommentFilter {
+    query: string;
+    author: string;
+    mineOnly: boolean;
+    spoilers: boolean;
+    images: boolean;
 }
 interface ThreadComment {
     id: number;
     comment: string;
     createdAt: number;
+    // Changes with every edit, so the parsed body can be cached under it.
+    updatedAt: number;
     likeCount: number;
     isLiked: boolean;
     user: User;
     childComments?: ThreadComment[];
     isOptimistic?: boolean;
 }
-interface CommentSegment {
-    type: 'text' | 'spoiler' | 'image' | 'link' | 'bold' | 'italic' | 'strike' | 'heading' | 'hr' | 'blockquote' | 'inline-code' | 'code-block' | 'br' | 'center' | 'youtube' | 'video' | 'user-link' | 'bold-italic' | 'underline';
-    content: string | CommentSegment[]; // Content can be a string or a list of nested segments
-    // Additional metadata for specific types
-    url?: string;
-    level?: number;
-    username?: string;
+// #region src/comment-parser.ts (copied by `npm run inline`, edit the module instead)
+// ===================================================================================
+// COMMENT PARSER
+// Pure functions with no dependency on Seanime or the UI. `parseComment` turns a raw
+// AniList comment body into `CommentSegment[]`, which the tray renders.
+//
+// Parsing happens in two passes. `parseBlocks` walks the text line by line and
+// recognises block constructs (code fences, centering, quotes, headings...),
+// recursing into their bodies. Everything else is a paragraph, which is split
+// into tokens by `tokenizeInline` and assembled by `parseInlineTokens`.
+// Delimiters that never find a partner are kept as plain text.
+//
+// Seanime loads the plugin payload as one script, so it can't import this file.
+// `npm run inline` copies it into src/my-plugin.ts with the exports stripped.
+// ===================================================================================
+
+// Comment AST: one node type per kind of segment `renderSegment` knows how to draw.
+interface TextSegment { type: 'text'; content: string; }
+interface BreakSegment { type: 'br'; content: ''; }
+interface RuleSegment { type: 'hr'; content: ''; }
+interface CodeSegment { type: 'inline-code' | 'code-block'; content: string; }
+interface FormatSegment { type: 'bold' | 'italic' | 'bold-italic' | 'underline' | 'strike'; content: CommentSegment[]; }
+interface SpoilerSegment { type: 'spoiler'; content: CommentSegment[]; }
+interface BlockquoteSegment { type: 'blockquote'; content: CommentSegment[]; }
+interface CenterSegment { type: 'center'; content: CommentSegment[]; }
+interface HeadingSegment { type: 'heading'; content: CommentSegment[]; level: number; }
+interface ImageSegment { type: 'image'; content: string; url?: string; width?: string; } // width is "300" (px) or "50%"
+interface GallerySegment { type: 'gallery'; content: ImageSegment[]; }
+interface LinkSegment { type: 'link'; content: string | CommentSegment[]; url: string; }
+interface UserLinkSegment { type: 'user-link'; content: string; username: string; }
+interface YoutubeSegment { type: 'youtube'; content: string; url: string; } // content is the video ID
+interface VideoSegment { type: 'video'; content: string; url: string; host: string; } // content is the file name
+interface ParagraphSegment { type: 'paragraph'; content: CommentSegment[]; }
+interface DivSegment { type: 'div'; content: CommentSegment[]; align?: TextAlign; }
+interface SpanSegment { type: 'span'; content: CommentSegment[]; }
+// List and table cells hold their own segment lists: one entry per item, or per row then per cell.
+interface ListSegment { type: 'list'; content: CommentSegment[][]; }
+interface OrderedListSegment { type: 'ordered-list'; content: CommentSegment[][]; start: number; }
+interface TableSegment { type: 'table'; header: CommentSegment[][]; content: CommentSegment[][][]; align: (TextAlign | null)[]; }
+type TextAlign = 'left' | 'center' | 'right';
+type CommentSegment =
+    | TextSegment | BreakSegment | RuleSegment | CodeSegment | FormatSegment | SpoilerSegment
+    | BlockquoteSegment | CenterSegment | HeadingSegment | ImageSegment | LinkSegment | UserLinkSegment
+    | ParagraphSegment | DivSegment | SpanSegment | ListSegment | OrderedListSegment | TableSegment
+    | YoutubeSegment | VideoSegment | GallerySegment;
+
+function decodeHtmlEntities(text: string): string {
+    if (!text) return "";
+    return text
+        .replace(/&#(\d+);/g, (match, dec) => String.fromCodePoint(parseInt(dec, 10)))
+        .replace(/&#x([0-9a-f]+);/gi, (match, hex) => String.fromCodePoint(parseInt(hex, 16)))
+        .replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&nbsp;/g, ' ')
+        .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+}
+
+// --- Inline tokenizer ---
+
+type InlineToken =
+    | { kind: 'text'; raw: string }
+    | { kind: 'newline'; raw: string }
+    | { kind: 'node'; raw: string; node: CommentSegment }
+    | { kind: 'delim'; raw: string; canOpen: boolean; canClose: boolean }
+    | { kind: 'tag'; raw: string; name: string; closing: boolean; attributes: string };
+
+// Self-contained constructs. `trigger` is a cheap prefix check so the regex only runs where it can match.
+const INLINE_ATOM_RULES: { trigger: string; regex: RegExp; build: (m: RegExpMatchArray) => CommentSegment }[] = [
+    { trigger: '`', regex: /^`([^`\n]+)`/, build: m => ({ type: 'inline-code', content: m[1] }) },
+    { trigger: '<', regex: /^<a\s+href="([^"]+)"[^>]*>\s*(<img[^>]*\s(?:data-src|src)="([^"]+)"[^>]*>)\s*<\/a>/i, build: m => ({ type: 'image', content: m[3], url: m[1], width: parseWidthAttribute(m[2]) }) },
+    { trigger: '<', regex: /^<img[^>]*\s(?:data-src|src)="([^"]+)"[^>]*>/i, build: m => ({ type: 'image', content: m[1], width: parseWidthAttribute(m[0]) }) },
+    { trigger: '<', regex: /^<a\s+href="([^"]+)"[^>]*>([\s\S]*?)<\/a>/i, build: m => ({ type: 'link', content: parseInline(m[2]), url: m[1] }) },
+    // Image and link targets may hold balanced parentheses, as in `File_(2019).png`.
+    { trigger: 'img', regex: /^img(\d*%?)\(((?:[^()\s]|\([^()\s]*\))+)\)/, build: m => ({ type: 'image', content: m[2], width: m[1] || undefined }) },
+    { trigger: 'youtube(', regex: /^youtube\(([^)\s]+)\)/, build: m => buildYoutubeSegment(m[1]) },
+    { trigger: 'video(', regex: /^video\(([^)\s]+)\)/, build: m => buildVideoSegment(m[1]) },
+    { trigger: '[', regex: /^\[([^\]\n]+)\]\(((?:[^()\s]|\([^()\s]*\))+)\)/, build: m => ({ type: 'link', content: m[1], url: m[2] }) },
+    // Trailing punctuation is left out so "see https://anilist.co." doesn't swallow the full stop.
+    { trigger: 'http', regex: /^https?:\/\/[^\s<>"'{}|\\^`[\]]*[^\s<>"'{}|\\^`[\].,!?;:)]/, build: m => VIDEO_FILE_REGEX.test(m[0]) ? buildVideoSegment(m[0]) : { type: 'link', content: m[0], url: m[0] } },
+];
+
+function parseWidthAttribute(tag: string): string | undefined {
+    return tag.match(/\swidth\s*=\s*["']?(\d+%?)/i)?.[1];
+}
+
+const VIDEO_FILE_REGEX = /\.(?:webm|mp4)(?:[?#]|$)/i;
+
+// `youtube()` accepts either a bare video ID or any of the usual YouTube URL shapes.
+function buildYoutubeSegment(value: string): YoutubeSegment {
+    const match = value.match(/(?:youtu\.be\/|[?&]v=|\/embed\/|\/shorts\/)([\w-]{6,})/);
+    const videoId = match ? match[1] : value;
+    return { type: 'youtube', content: videoId, url: `https://www.youtube.com/watch?v=${videoId}` };
+}
+
+function buildVideoSegment(url: string): VideoSegment {
+    const host = url.match(/^https?:\/\/([^/?#]+)/i)?.[1] || '';
+    const lastPathPart = url.replace(/[?#].*$/, '').split('/').pop() || url;
+    let fileName = lastPathPart;
+    try {
+        fileName = decodeURIComponent(lastPathPart);
+    } catch (e) {
+        // Keep the raw name if it isn't valid percent-encoding.
+    }
+    return { type: 'video', content: fileName, url, host };
 }
 
+const INLINE_TAG_REGEX = /^<(\/?)(b|strong|i|em|u|s|strike|del|span|p|div)(\s[^>]*)?>/i;
+const TILDE_DELIMITERS = ['~~~', '~!', '!~', '~~'];
+
+function isWhitespace(char: string | undefined): boolean {
+    return !char || /\s/.test(char);
+}
+
+function tokenizeInline(source: string): InlineToken[] {
+    const tokens: InlineToken[] = [];
+    let buffer = '';
+    const flush = () => {
+        if (buffer) tokens.push({ kind: 'text', raw: buffer });
+        buffer = '';
+    };
+
+    let pos = 0;
+    scan: while (pos < source.length) {
+        const char = source[pos];
+
+        if (char === '\n') {
+            flush();
+            tokens.push({ kind: 'newline', raw: char });
+            pos++;
+            continue;
+        }
+
+        for (const rule of INLINE_ATOM_RULES) {
+            if (!source.startsWith(rule.trigger, pos)) continue;
+            const match = source.slice(pos).match(rule.regex);
+            if (match) {
+                flush();
+                tokens.push({ kind: 'node', raw: match[0], node: rule.build(match) });
+                pos += match[0].length;
+                continue scan;
+            }
+        }
+
+        if (char === '@' && !/\w/.test(source[pos - 1] || '')) {
+            const match = source.slice(pos).match(/^@([\w-]+)/);
+            if (match) {
+                flush();
+                tokens.push({ kind: 'node', raw: match[0], node: { type: 'user-link', content: match[0], username: match[1] } });
+                pos += match[0].length;
+                continue;
+            }
+        }
+
+        if (char === '<') {
+            const match = source.slice(pos).match(INLINE_TAG_REGEX);
+            if (match) {
+                flush();
+                tokens.push({ kind: 'tag', raw: match[0], name: match[2].toLowerCase(), closing: match[1] === '/', attributes: match[3] || '' });
+                pos += match[0].length;
+                continue;
+            }
+        }
+
+        if (char === '~' || char === '!') {
+            const delim = TILDE_DELIMITERS.find(d => source.startsWith(d, pos));
+            if (delim) {
+                const prev = source[pos - 1];
+                const next = source[pos + delim.length];
+                flush();
+                tokens.push({
+                    kind: 'delim',
+                    raw: delim,
+                    // Spoilers are commonly written with inner padding ("~! text !~"), so they ignore flanking.
+                    // "!~text!~" also opens one, but only flanked, so a padded closer on its own stays text.
+                    canOpen: delim === '~!' || !isWhitespace(next),
+                    canClose: delim === '!~' || (delim !== '~!' && !isWhitespace(prev)),
+                });
+                pos += delim.length;
+                continue;
+            }
+        }
+
+        if (char === '*' || char === '_') {
+            let runEnd = pos;
+            while (source[runEnd] === char) runEnd++;
+            const prev = source[pos - 1];
+            const next = source[runEnd];
+            // snake_case and similar words never contain emphasis.
+            if (char === '_' && /[a-z0-9]/i.test(prev || '') && /[a-z0-9]/i.test(next || '')) {
+                buffer += source.slice(pos, runEnd);
+                pos = runEnd;
+                continue;
+            }
+            const runLength = runEnd - pos;
+            const delimLength = Math.min(runLength, 3);
+            // Anything beyond a triple delimiter is literal text in front of it.
+            buffer += char.repeat(runLength - delimLength);
+            flush();
+            tokens.push({ kind: 'delim', raw: char.repeat(delimLength), canOpen: !isWhitespace(next), canClose: !isWhitespace(prev) });
+            pos = runEnd;
+            continue;
+        }
+
+        buffer += char;
+        pos++;
+    }
+    flush();
+    return tokens;
+}
+
+// --- Inline parser ---
+
+const DELIMITER_SEGMENT_TYPES: { [delim: string]: FormatSegment['type'] | 'center' | 'spoiler' } = {
+    '***': 'bold-italic', '___': 'bold-italic',
+    '**': 'bold', '__': 'bold',
+    '*': 'italic', '_': 'italic',
+    '~~': 'strike',
+    '~~~': 'center',
+    '~!': 'spoiler', '!~': 'spoiler',
+};
+const TAG_SEGMENT_TYPES: { [tag: string]: FormatSegment['type'] | 'span' | 'paragraph' | 'div' } = {
+    b: 'bold', strong: 'bold',
+    i: 'italic', em: 'italic',
+    u: 'underline',
+    s: 'strike', strike: 'strike', del: 'strike',
+    span: 'span', p: 'paragraph', div: 'div',
+};
+
+// Reads `align="center"` or `style="text-align: center"` from an HTML attribute string.
+function parseAlignAttribute(attributes: string): TextAlign | undefined {
+    const match = attributes.match(/(?:align\s*=\s*["']?|text-align\s*:\s*)(left|center|right)/i);
+    return match ? match[1].toLowerCase() as TextAlign : undefined;
+}
+
+function findClosingToken(tokens: InlineToken[], openIndex: number, end: number): number {
+    const opener = tokens[openIndex];
+    let depth = 0;
+
+    if (opener.kind === 'delim') {
+        if (!opener.canOpen || !DELIMITER_SEGMENT_TYPES[opener.raw]) return -1;
+        const closer = opener.raw === '~!' ? '!~' : opener.raw;
+        for (let i = openIndex + 1; i < end; i++) {
+            const token = tokens[i];
+            if (token.kind !== 'delim') continue;
+            if (opener.raw === '~!' && token.raw === '~!') {
+                depth++;
+            } else if (token.raw === closer && token.canClose) {
+                if (depth === 0) return i;
+                depth--;
+            }
+        }
+    } else if (opener.kind === 'tag' && !opener.closing) {
+        for (let i = openIndex + 1; i < end; i++) {
+            const token = tokens[i];
+            if (token.kind !== 'tag' || token.name !== opener.name) continue;
+            if (!token.closing) {
+                depth++;
+            } else {
+                if (depth === 0) return i;
+                depth--;
+            }
+        }
+    }
+    return -1;
+}
+
+function pushText(segments: CommentSegment[], text: string) {
+    const last = segments[segments.length - 1];
+    if (last && last.type === 'text') last.content += text;
+    else segments.push({ type: 'text', content: text });
+}
+
+function parseInlineTokens(tokens: InlineToken[], start: number, end: number): CommentSegment[] {
+    const segments: CommentSegment[] = [];
+    let i = start;
+    while (i < end) {
+        const token = tokens[i];
+        if (token.kind === 'text') {
+            pushText(segments, token.raw);
+        } else if (token.kind === 'newline') {
+            segments.push({ type: 'br', content: '' });
+        } else if (token.kind === 'node') {
+            segments.push(token.node);
+        } else {
+            const close = findClosingToken(tokens, i, end);
+            // Unmatched or empty pairs fall back to their literal text.
+            if (close <= i + 1) {
+                pushText(segments, token.raw);
+            } else {
+                const content = parseInlineTokens(tokens, i + 1, close);
+                if (token.kind === 'tag' && token.name === 'div') {
+                    segments.push({ type: 'div', content, align: parseAlignAttribute(token.attributes) });
+                } else {
+                    const type = token.kind === 'tag' ? TAG_SEGMENT_TYPES[token.name] : DELIMITER_SEGMENT_TYPES[token.raw];
+                    segments.push({ type, content } as CommentSegment);
+                }
+                i = close;
+            }
+        }
+        i++;
+    }
+    return groupImageRuns(segments);
+}
+
+// Two or more images separated only by whitespace or line breaks become one gallery.
+function groupImageRuns(segments: CommentSegment[]): CommentSegment[] {
+    const grouped: CommentSegment[] = [];
+    let i = 0;
+    while (i < segments.length) {
+        if (segments[i].type !== 'image') {
+            grouped.push(segments[i]);
+            i++;
+            continue;
+        }
+        const images: ImageSegment[] = [];
+        let runEnd = i;
+        for (let j = i; j < segments.length; j++) {
+            const segment = segments[j];
+            if (segment.type === 'image') {
+                images.push(segment);
+                runEnd = j + 1;
+            } else if (!(segment.type === 'br' || (segment.type === 'text' && !segment.content.trim()))) {
+                break;
+            }
+        }
+        if (images.length > 1) grouped.push({ type: 'gallery', content: images });
+        else grouped.push(...segments.slice(i, runEnd));
+        i = runEnd;
+    }
+    return grouped;
+}
+
+function parseInline(text: string): CommentSegment[] {
+    if (!text) return [];
+    const tokens = tokenizeInline(text);
+    return parseInlineTokens(tokens, 0, tokens.length);
+}
+
+// --- Block parser ---
+
+const HR_LINE_REGEX = /^(?:-{3,}|_{3,}|\*{3,}|<hr\s*\/?>)\s*$/i;
+// Ordered markers stop at three digits so a line opening with a year ("2019. was a great year") stays prose.
+const BLOCK_START_REGEX = /^(?:```|~~~|>|<(?:blockquote|center|p|div|ul|ol)[\s>]|#<center>|#{1,5}\s|<h[1-6]>|\s*(?:[-*+]|\d{1,3}[.)])\s)/i;
+const LIST_ITEM_REGEX = /^(\s*)([-*+]|\d{1,3}[.)])\s+(.*)$/;
+const TABLE_SEPARATOR_REGEX = /^\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+
+function lineEndAt(source: string, pos: number): number {
+    const end = source.indexOf('\n', pos);
+    return end === -1 ? source.length : end;
+}
+
+function trimBlockNewlines(text: string): string {
+    return text.replace(/^\n/, '').replace(/\n$/, '');
+}
+
+// Matches `<tag ...>...</tag>` at `pos`, counting nested tags of the same name.
+function matchHtmlBlock(source: string, pos: number, tag: string): { attributes: string; inner: string; end: number } | null {
+    const open = source.slice(pos).match(new RegExp(`^<${tag}(\\s[^>]*)?>`, 'i'));
+    if (!open) return null;
+    const closeTag = `</${tag}>`;
+    const closeIndex = findBalancedClose(source.toLowerCase(), pos + open[0].length, `<${tag}`, closeTag);
+    if (closeIndex === -1) return null;
+    return { attributes: open[1] || '', inner: source.slice(pos + open[0].length, closeIndex), end: closeIndex + closeTag.length };
+}
+
+function splitTableRow(line: string): string[] {
+    return line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+}
+
+function isTableStart(source: string, pos: number): boolean {
+    const lineEnd = lineEndAt(source, pos);
+    const separatorEnd = lineEndAt(source, lineEnd + 1);
+    const separator = source.slice(lineEnd + 1, separatorEnd);
+    return source.slice(pos, lineEnd).includes('|') && separator.includes('|') && TABLE_SEPARATOR_REGEX.test(separator);
+}
+
+function parseTable(source: string, pos: number): { segments: CommentSegment[]; end: number } {
+    const headerEnd = lineEndAt(source, pos);
+    const separatorEnd = lineEndAt(source, headerEnd + 1);
+    const headerCells = splitTableRow(source.slice(pos, headerEnd));
+    const align = splitTableRow(source.slice(headerEnd + 1, separatorEnd)).map(cell => {
+        if (cell.startsWith(':') && cell.endsWith(':')) return 'center';
+        if (cell.endsWith(':')) return 'right';
+        if (cell.startsWith(':')) return 'left';
+        return null;
+    });
+
+    const rows: CommentSegment[][][] = [];
+    let end = separatorEnd;
+    while (end + 1 < source.length) {
+        const rowEnd = lineEndAt(source, end + 1);
+        const row = source.slice(end + 1, rowEnd);
+        if (!row.includes('|')) break;
+        const cells = splitTableRow(row);
+        rows.push(headerCells.map((_, index) => parseInline(cells[index] || '')));
+        end = rowEnd;
+    }
+
+    return { segments: [{ type: 'table', header: headerCells.map(cell => parseInline(cell)), content: rows, align }], end };
+}
+
+// Consecutive `- item` / `1. item` lines at the same indentation. Deeper-indented lines belong to
+// the item above them and are parsed as blocks, which is how nested lists come out.
+function parseMarkdownList(source: string, pos: number): { segments: CommentSegment[]; end: number } | null {
+    const first = source.slice(pos, lineEndAt(source, pos)).match(LIST_ITEM_REGEX);
+    if (!first) return null;
+    const indent = first[1].length;
+    const ordered = /\d/.test(first[2]);
+
+    const items: string[][] = [];
+    let childIndent = 0;
+    let end = pos;
+    let cursor = pos;
+    while (cursor < source.length) {
+        const lineEnd = lineEndAt(source, cursor);
+        const line = source.slice(cursor, lineEnd);
+        const item = line.match(LIST_ITEM_REGEX);
+        const lineIndent = line.length - line.replace(/^\s+/, '').length;
+
+        if (item && lineIndent === indent) {
+            if (/\d/.test(item[2]) !== ordered) break;
+            items.push([item[3]]);
+            childIndent = 0;
+        } else if (line.trim() && lineIndent > indent) {
+            if (!childIndent) childIndent = lineIndent;
+            items[items.length - 1].push(line.slice(Math.min(childIndent, lineIndent)));
+        } else {
+            break;
+        }
+        end = lineEnd;
+        cursor = lineEnd + 1;
+    }
+
+    const content = items.map(lines => parseBlocks(lines.join('\n')));
+    const segment: CommentSegment = ordered
+        ? { type: 'ordered-list', content, start: parseInt(first[2], 10) }
+        : { type: 'list', content };
+    return { segments: [segment], end };
+}
+
+function parseHtmlList(tag: 'ul' | 'ol', attributes: string, inner: string): CommentSegment {
+    const content: CommentSegment[][] = [];
+    let pos = 0;
+    while (pos < inner.length) {
+        const item = matchHtmlBlock(inner, pos, 'li');
+        if (item) {
+            content.push(parseBlocks(item.inner.trim()));
+            pos = item.end;
+            continue;
+        }
+        // Stray text between items (usually just whitespace) is kept with the nearest item.
+        const nextItem = inner.toLowerCase().indexOf('<li', pos + 1);
+        const strayText = inner.slice(pos, nextItem === -1 ? inner.length : nextItem).trim();
+        if (strayText) content.push(parseBlocks(strayText));
+        pos = nextItem === -1 ? inner.length : nextItem;
+    }
+    if (tag === 'ul') return { type: 'list', content };
+    const start = attributes.match(/start\s*=\s*["']?(\d+)/i);
+    return { type: 'ordered-list', content, start: start ? parseInt(start[1], 10) : 1 };
+}
+
+// Index of the `close` that balances an already consumed `open`, or -1.
+function findBalancedClose(source: string, from: number, open: string, close: string): number {
+    let depth = 0;
+    let pos = from;
+    while (pos < source.length) {
+        const nextOpen = source.indexOf(open, pos);
+        const nextClose = source.indexOf(close, pos);
+        if (nextClose === -1) return -1;
+        if (nextOpen !== -1 && nextOpen < nextClose) {
+            depth++;
+            pos = nextOpen + open.length;
+        } else {
+            if (depth === 0) return nextClose;
+            depth--;
+            pos = nextClose + close.length;
+        }
+    }
+    return -1;
+}
+
+function startsBlock(source: string, pos: number): boolean {
+    const line = source.slice(pos, lineEndAt(source, pos));
+    if (BLOCK_START_REGEX.test(line) || HR_LINE_REGEX.test(line) || isTableStart(source, pos)) return true;
+    return line.startsWith('~!') && !line.includes('!~');
+}
+
+// Parses the block construct starting at `pos`, or returns null when the text there is a plain paragraph.
+function parseBlock(source: string, pos: number): { segments: CommentSegment[]; end: number } | null {
+    const lineEnd = lineEndAt(source, pos);
+    const line = source.slice(pos, lineEnd);
+
+    if (line.startsWith('```')) {
+        const close = source.indexOf('```', pos + 3);
+        if (close !== -1) {
+            return { segments: [{ type: 'code-block', content: trimBlockNewlines(source.slice(pos + 3, close)) }], end: close + 3 };
+        }
+    }
+
+    if (line.startsWith('~~~')) {
+        const close = source.indexOf('~~~', pos + 3);
+        if (close !== -1) {
+            return { segments: [{ type: 'center', content: parseBlocks(trimBlockNewlines(source.slice(pos + 3, close))) }], end: close + 3 };
+        }
+    }
+
+    // Single-line spoilers are left to the inline parser so text after them stays on the same line.
+    if (line.startsWith('~!')) {
+        const close = findBalancedClose(source, pos + 2, '~!', '!~');
+        if (close > lineEnd) {
+            return { segments: [{ type: 'spoiler', content: parseBlocks(trimBlockNewlines(source.slice(pos + 2, close))) }], end: close + 2 };
+        }
+    }
+
+    if (line.startsWith('<')) {
+        for (const tag of ['blockquote', 'center', 'p', 'div', 'ul', 'ol']) {
+            const html = matchHtmlBlock(source, pos, tag);
+            if (!html) continue;
+            if (tag === 'ul' || tag === 'ol') {
+                return { segments: [parseHtmlList(tag, html.attributes, html.inner)], end: html.end };
+            }
+            const content = parseBlocks(html.inner.trim());
+            const segment: CommentSegment = tag === 'div'
+                ? { type: 'div', content, align: parseAlignAttribute(html.attributes) }
+                : { type: tag === 'p' ? 'paragraph' : tag as 'blockquote' | 'center', content };
+            return { segments: [segment], end: html.end };
+        }
+    }
+
+    if (line.startsWith('>')) {
+        const quotedLines: string[] = [];
+        let end = pos;
+        let cursor = pos;
+        while (cursor < source.length && source[cursor] === '>') {
+            const quotedEnd = lineEndAt(source, cursor);
+            quotedLines.push(source.slice(cursor, quotedEnd).replace(/^>\s?/, ''));
+            end = quotedEnd;
+            cursor = quotedEnd + 1;
+        }
+        return { segments: [{ type: 'blockquote', content: parseBlocks(quotedLines.join('\n')) }], end };
+    }
+
+    const legacyCenter = line.match(/^#<center>(.*)/);
+    if (legacyCenter) {
+        let content = legacyCenter[1];
+        if (content.startsWith('____') && content.endsWith('____')) {
+            content = `___${content.slice(4, -4)}___`;
+        }
+        return { segments: [{ type: 'center', content: parseInline(content) }], end: lineEnd };
+    }
+
+    const heading = line.match(/^(#{1,5})\s+(.*)/);
+    if (heading) {
+        return { segments: [{ type: 'heading', content: parseInline(heading[2]), level: heading[1].length }], end: lineEnd };
+    }
+
+    const htmlHeading = source.slice(pos).match(/^<h([1-6])>([\s\S]*?)<\/h\1>/i);
+    if (htmlHeading) {
+        return { segments: [{ type: 'heading', content: parseInline(htmlHeading[2]), level: parseInt(htmlHeading[1], 10) }], end: pos + htmlHeading[0].length };
+    }
+
+    if (HR_LINE_REGEX.test(line)) {
+        return { segments: [{ type: 'hr', content: '' }], end: lineEnd };
+    }
+
+    if (isTableStart(source, pos)) {
+        return parseTable(source, pos);
+    }
+
+    const list = parseMarkdownList(source, pos);
+    if (list) return list;
+
+    return null;
+}
+
+function parseBlocks(source: string): CommentSegment[] {
+    const segments: CommentSegment[] = [];
+    let pos = 0;
+    while (pos < source.length) {
+        if (source[pos] === '\n') {
+            segments.push({ type: 'br', content: '' });
+            pos++;
+            continue;
+        }
+
+        const block = parseBlock(source, pos);
+        if (block) {
+            segments.push(...block.segments);
+            pos = block.end;
+            continue;
+        }
+
+        // A paragraph runs until a blank line or a line that opens a block, so inline
+        // formatting can span the line breaks inside it.
+        let end = lineEndAt(source, pos);
+        while (end + 1 < source.length && source[end + 1] !== '\n' && !startsBlock(source, end + 1)) {
+            end = lineEndAt(source, end + 1);
+        }
+        segments.push(...parseInline(source.slice(pos, end)));
+        pos = end;
+    }
+    return groupImageRuns(segments);
+}
+
+function parseComment(text: string): CommentSegment[] {
+    if (!text) return [];
+    const source = decodeHtmlEntities(text.replace(/\r\n?/g, '\n').replace(/<br\s*\/?>/gi, '\n'));
+    return parseBlocks(source);
+}
+
+// Calls `visit` for every segment in the tree, parents before their children.
+function walkSegments(segments: CommentSegment[], visit: (segment: CommentSegment) => void) {
+    const walk = (list: CommentSegment[]) => {
+        for (const segment of list) {
+            visit(segment);
+            if (segment.type === 'list' || segment.type === 'ordered-list') segment.content.forEach(walk);
+            else if (segment.type === 'table') [segment.header, ...segment.content].forEach(row => row.forEach(walk));
+            else if (Array.isArray(segment.content)) walk(segment.content as CommentSegment[]);
+        }
+    };
+    walk(segments);
+}
+
+// Every image URL in a segment tree, in reading order.
+function collectImageUrls(segments: CommentSegment[]): string[] {
+    const urls: string[] = [];
+    walkSegments(segments, segment => { if (segment.type === 'image') urls.push(segment.content); });
+    return urls;
+}
+
+// The readable text of a comment, used for search. Link targets and media URLs are left out.
+function segmentsToText(segments: CommentSegment[]): string {
+    const parts: string[] = [];
+    walkSegments(segments, segment => {
+        if (segment.type === 'text' || segment.type === 'inline-code' || segment.type === 'code-block' || segment.type === 'user-link') parts.push(segment.content);
+        else if (segment.type === 'link' && typeof segment.content === 'string') parts.push(segment.content);
+    });
+    return parts.join(' ');
+}
+
+function hasSegmentType(segments: CommentSegment[], types: CommentSegment['type'][]): boolean {
+    let found = false;
+    walkSegments(segments, segment => { if (types.includes(segment.type)) found = true; });
+    return found;
+}
+
+// Splits `text` around case-insensitive occurrences of `query` so matches can be highlighted.
+function splitOnMatches(text: string, query: string): { text: string; match: boolean }[] {
+    if (!query) return [{ text, match: false }];
+    const parts: { text: string; match: boolean }[] = [];
+    const lowerText = text.toLowerCase();
+    const lowerQuery = query.toLowerCase();
+    let pos = 0;
+    let index;
+    while ((index = lowerText.indexOf(lowerQuery, pos)) !== -1) {
+        if (index > pos) parts.push({ text: text.slice(pos, index), match: false });
+        parts.push({ text: text.slice(index, index + query.length), match: true });
+        pos = index + query.length;
+    }
+    if (pos < text.length) parts.push({ text: text.slice(pos), match: false });
+    return parts;
+}
+// #endregion src/comment-parser.ts
+
+// ===================================================================================
+// COMPOSER HELPERS
+// ===================================================================================
+
+type MediaInsertKind = 'image' | 'youtube' | 'video';
+
+// Title and input placeholder of the toolbar's media dialog, per kind of media.
+const MEDIA_INSERT_DIALOG_TEXT: Record<MediaInsertKind, { title: string; placeholder: string }> = {
+    image: { title: "Insert image", placeholder: "https://…/image.png" },
+    youtube: { title: "Embed YouTube video", placeholder: "YouTube link or video ID" },
+    video: { title: "Embed video", placeholder: "https://…/clip.webm" },
+};
+
+// Markup for the toolbar's media dialog, or the reason the input wouldn't render.
+function buildMediaMarkup(kind: MediaInsertKind, value: string, width: string = ''): { markup: string } | { error: string } {
+    const input = value.trim();
+    if (!input) return { error: "Enter a URL first." };
+    switch (kind) {
+        case 'image':
+            if (!/^https?:\/\/[^\s()]+$/i.test(input)) return { error: "Image URLs must start with http:// or https:// and can't contain spaces or brackets." };
+            if (width.trim() && !/^\d{1,4}%?$/.test(width.trim())) return { error: "Width must be a number of pixels (e.g. 300) or a percentage (e.g. 50%)." };
+            return { markup: `img${width.trim()}(${input})` };
+        case 'youtube': {
+            const videoId = buildYoutubeSegment(input).content;
+            if (!/^[\w-]{11}$/.test(videoId)) return { error: "That doesn't look like a YouTube link or 11-character video ID." };
+            return { markup: `youtube(${videoId})` };
+        }
+        case 'video':
+            if (!/^https?:\/\/[^\s()]+$/i.test(input) || !VIDEO_FILE_REGEX.test(input)) return { error: "Video links must point straight to a .webm or .mp4 file." };
+            return { markup: `video(${input})` };
+    }
+}
+
+// The "@partial" being typed right before the cursor, if any.
+const MENTION_PARTIAL_REGEX = /@(\w*)$/;
+
+const TOOLBAR_EMOJI = ['😀', '😂', '🥲', '😭', '😍', '🥰', '😎', '🤔', '😳', '😱', '😡', '💀', '👍', '👎', '👏', '🙏', '🔥', '✨', '💯', '❤️', '💔', '🎉', '👀', '🍿'];
+
+// Everyone who has commented in the loaded tree, for the mention picker.
+function collectCommentAuthors(list: ThreadComment[]): string[] {
+    const names = new Set<string>();
+    const visit = (comments: ThreadComment[]) => comments.forEach(c => {
+        names.add(c.user.name);
+        visit(c.childComments || []);
+    });
+    visit(list);
+    return Array.from(names);
+}
+
+// ===================================================================================
+// REQUEST HELPERS
+// ===================================================================================
+
+// Exponential backoff with full jitter on top: 1s, 2s, 4s... plus up to one base delay.
+function backoffDelay(attempt: number): number {
+    const exponential = REQUEST_BASE_DELAY_MS * Math.pow(2, attempt);
+    return Math.min(REQUEST_MAX_DELAY_MS, exponential + Math.floor(Math.random() * REQUEST_BASE_DELAY_MS));
+}
+
+// Response headers may come back as a Headers-like object or a plain map with any casing.
+function readHeader(res: any, name: string): string | null {
+    const headers = res?.headers;
+    if (!headers) return null;
+    if (typeof headers.get === 'function') return headers.get(name);
+    const key = Object.keys(headers).find(k => k.toLowerCase() === name.toLowerCase());
+    if (!key) return null;
+    const value = headers[key];
+    return Array.isArray(value) ? value[0] : value;
+}
+
+// ===================================================================================
+// ERRORS
+// ===================================================================================
+
+type AnilistErrorKind = 'unauthenticated' | 'not-found' | 'forbidden' | 'rate-limited' | 'network' | 'server' | 'validation' | 'unknown';
+
+// Everything `anilistApi` throws is an AnilistError, so views can react to the kind of failure
+// rather than to message text.
+class AnilistError extends Error {
+    kind: AnilistErrorKind;
+    status: number | null;
+
+    constructor(kind: AnilistErrorKind, message: string, status: number | null = null) {
+        super(message);
+        this.name = 'AnilistError';
+        this.kind = kind;
+        this.status = status;
+    }
+
+    // The request itself was fine; sending it again later may succeed.
+    get isTransient(): boolean {
+        return this.kind === 'network' || this.kind === 'server' || this.kind === 'rate-limited';
+    }
+}
+
+// AniList reports most failures as GraphQL errors with a `status`, but the status is not always
+// set (e.g. "Invalid token" comes back as a 400), so the message is checked as a fallback.
+function classifyAnilistError(status: number | null, message: string): AnilistErrorKind {
+    if (status === 401 || /invalid token|unauthori[sz]ed|unauthenticated/i.test(message)) return 'unauthenticated';
+    if (status === 403 || /forbidden|locked|not allowed|permission/i.test(message)) return 'forbidden';
+    if (status === 404 || /not found/i.test(message)) return 'not-found';
+    if (status === 429) return 'rate-limited';
+    if (status !== null && status >= 500) return 'server';
+    if (status === 400 || /validation|invalid/i.test(message)) return 'validation';
+    return 'unknown';
+}
+
+function toAnilistError(e: any): AnilistError {
+    if (e instanceof AnilistError) return e;
+    return new AnilistError('unknown', e?.message || String(e));
+}
+
+// #region src/anilist-response.ts (copied by `npm run inline`, edit the module instead)
+// ===================================================================================
+// ANILIST RESPONSES
+// Reads GraphQL responses that AniList could only answer in part. Pure functions, copied
+// into src/my-plugin.ts by `npm run inline` like the comment parser.
+// ===================================================================================
+
+interface GraphqlError {
+    message: string;
+    status?: number;
+    path?: (string | number)[];
+}
+
+interface GraphqlResponse {
+    data?: { [alias: string]: any } | null;
+    errors?: GraphqlError[];
+}
+
+// A query that asks for several items under aliases (`t1: Thread(id: 1) { ... }`) gets a 404
+// error for each item that no longer exists and `null` in its place, next to the items that do.
+// Returns the aliases that came back missing when every error is such a 404, or null when the
+// response failed for any other reason and has to be treated as an error.
+function missingAliases(response: GraphqlResponse): string[] | null {
+    const { data, errors = [] } = response;
+    if (!data || !errors.every(error => error.status === 404)) return null;
+    const missing = Object.keys(data).filter(alias => data[alias] === null);
+    // A 404 that names an alias which did come back isn't about a missing item.
+    if (errors.some(error => error.path && !missing.includes(String(error.path[0])))) return null;
+    return missing;
+}
+// #endregion src/anilist-response.ts
+
+// #region src/episode-titles.ts (copied by `npm run inline`, edit the module instead)
+// ===================================================================================
+// EPISODE TITLES
+// Reads which episode, range of episodes or special a discussion thread is about from its
+// title. Pure functions, copied into src/my-plugin.ts by `npm run inline` like the comment parser.
+// ===================================================================================
+
+type EpisodeSpecialKind = 'ova' | 'ona' | 'special' | 'recap' | 'movie';
+// An episode thread title, classified. `start`/`end` can be fractional ("Ep 12.5") and are 0 for
+// an unnumbered special. `seasonOffset` has already been subtracted from absolute numbering.
+interface EpisodeTitleInfo {
+    start: number;
+    end: number;
+    special: EpisodeSpecialKind | null;
+    season: number | null;
+    seasonOffset: number;
+    confidence: 'high' | 'medium' | 'low';
+}
+
+// Episode thread titles: "S2E04", "Season 2 Episode 4", "Episodes 1-3", "Ep. 12.5", "OVA 2", "Special".
+const SEASON_EPISODE_REGEX = /\bS(\d{1,2})\s*E(\d+(?:\.\d+)?)\b/i;
+const SEASON_THEN_EPISODE_REGEX = /\bSeason\s*(\d+)\W{0,3}(?:Episode|Ep\.?)\s*(\d+(?:\.\d+)?)/i;
+const EPISODE_RANGE_REGEX = /\b(Episodes?|Eps?\.?)\s*(\d+(?:\.\d+)?)(?:\s*(?:[-–~&]|to)\s*(\d+(?:\.\d+)?))?/i;
+const EPISODE_SPECIAL_REGEX = /\b(OVA|OAD|ONA|Specials?|SP|Recap|Movie)\b\.?\s*(\d+)?/i;
+const EPISODE_SPECIAL_LABELS: { [kind in EpisodeSpecialKind]: string } = { ova: 'OVA', ona: 'ONA', special: 'SP', recap: 'Recap', movie: 'Movie' };
+// Numbered threads that must agree before a season offset is applied, so one mistyped title can't renumber a season.
+const SEASON_OFFSET_MIN_THREADS = 2;
+
+// Reads what an episode thread covers from its title, or null when it names no episode or special.
+// Titles spelling the episode out ("Episode", "S2E04") are trusted more than abbreviations; numbers
+// past `seasonOffset` are treated as absolute and shifted into the season, which lowers trust again.
+function classifyEpisodeTitle(title: string, seasonOffset: number = 0): EpisodeTitleInfo | null {
+    let start = 0, end = 0;
+    let season: number | null = null;
+    let confidence: EpisodeTitleInfo['confidence'] = 'high';
+
+    const seasonMatch = title.match(SEASON_EPISODE_REGEX) || title.match(SEASON_THEN_EPISODE_REGEX);
+    const rangeMatch = seasonMatch ? null : title.match(EPISODE_RANGE_REGEX);
+    if (seasonMatch) {
+        season = parseInt(seasonMatch[1], 10);
+        start = end = parseFloat(seasonMatch[2]);
+    } else if (rangeMatch) {
+        start = parseFloat(rangeMatch[2]);
+        end = rangeMatch[3] ? parseFloat(rangeMatch[3]) : start;
+        if (!/^Episodes?$/i.test(rangeMatch[1])) confidence = 'medium';
+    }
+
+    // A title that spells its episode out ("Overlord OVA Episode 1", "[SP] Episode 5") is about that
+    // episode; special keywords only decide when nothing else numbers it.
+    const explicitEpisode = !!seasonMatch || (!!rangeMatch && confidence === 'high');
+    const specialMatch = explicitEpisode ? null : title.match(EPISODE_SPECIAL_REGEX);
+    const specialWord = specialMatch?.[1].toLowerCase();
+    const special: EpisodeSpecialKind | null = !specialWord ? null
+        : specialWord === 'oad' ? 'ova'
+        : specialWord.startsWith('sp') ? 'special'
+        : specialWord as EpisodeSpecialKind;
+    // "Episode 0" is a numbered episode (often a prologue), so a match is what counts, not a non-zero number.
+    const numbered = !!seasonMatch || !!rangeMatch;
+    if (special && !numbered && specialMatch![2]) {
+        start = end = parseInt(specialMatch![2], 10);
+    }
+    if (!numbered && !special) return null;
+    if (special && !numbered) confidence = 'medium';
+
+    let appliedOffset = 0;
+    if (seasonOffset > 0 && !special && season === null && start > seasonOffset) {
+        start -= seasonOffset;
+        end -= seasonOffset;
+        appliedOffset = seasonOffset;
+        confidence = confidence === 'high' ? 'medium' : 'low';
+    }
+    return { start: Math.min(start, end), end: Math.max(start, end), special, season, seasonOffset: appliedOffset, confidence };
+}
+
+// Last regular episode a thread title refers to ("Episode 11", "Eps 3-5"), or 0 when it names none.
+function highestMentionedEpisode(title: string): number {
+    const info = classifyEpisodeTitle(title);
+    return info && !info.special ? info.end : 0;
+}
+
+// Sequels often keep counting from the previous season ("Episode 13" for a 12-episode season's
+// first episode). When enough numbered threads lie past the season's length, the lowest one is
+// taken as its first episode, as long as every one of them then fits inside the season.
+function inferSeasonOffset(titles: EpisodeTitleInfo[], episodeCount: number | null): number {
+    if (!episodeCount) return 0;
+    const numbered = titles.filter(info => !info.special && info.season === null && info.start > 0);
+    if (numbered.length < SEASON_OFFSET_MIN_THREADS || numbered.some(info => info.start <= episodeCount)) return 0;
+    const offset = Math.floor(Math.min(...numbered.map(info => info.start))) - 1;
+    return numbered.every(info => info.end - offset <= episodeCount) ? offset : 0;
+}
+
+function formatEpisodeLabel(info: EpisodeTitleInfo): string {
+    const span = info.special && !info.start ? '' : info.start === info.end ? `${info.start}` : `${info.start}–${info.end}`;
+    if (!info.special) return span;
+    return span ? `${EPISODE_SPECIAL_LABELS[info.special]} ${span}` : EPISODE_SPECIAL_LABELS[info.special];
+}
+// #endregion src/episode-titles.ts
+
+// ===================================================================================
+// THREAD HELPERS
+// ===================================================================================
+
+// AniList forum URLs: /forum/thread/{id}, optionally followed by /comment/{commentId}.
+function parseForumLink(url: string): { threadId: number; commentId: number | null } | null {
+    const match = url.match(/^https?:\/\/(?:www\.)?anilist\.co\/forum\/thread\/(\d+)(?:\/comment\/(\d+))?/i);
+    if (!match) return null;
+    return { threadId: parseInt(match[1], 10), commentId: match[2] ? parseInt(match[2], 10) : null };
+}
+
+function forumCommentUrl(threadId: number, commentId: number): string {
+    return `https://anilist.co/forum/thread/${threadId}/comment/${commentId}`;
+}
+
+// Classifies a media's episode threads, shifting absolute numbering into the season when it is detected.
+function classifyEpisodeThreads(threads: Thread[], episodeCount: number | null): Thread[] {
+    const classified = threads.map(t => classifyEpisodeTitle(t.title));
+    const offset = inferSeasonOffset(classified.filter((info): info is EpisodeTitleInfo => !!info), episodeCount);
+    return threads.map((t, i) => {
+        const episode = (offset ? classifyEpisodeTitle(t.title, offset) : classified[i]) || undefined;
+        return { ...t, episode, episodeNumber: episode && !episode.special ? Math.floor(episode.start) : 0 };
+    });
+}
+
+// The thread for one episode, preferring threads about that episode alone over ranges, then the busiest.
+function findEpisodeThread(threads: Thread[], episode: number): Thread | null {
+    const covering = threads.filter(t => t.episode && !t.episode.special && t.episode.start <= episode && episode <= t.episode.end);
+    covering.sort((a, b) => (a.episode!.end - a.episode!.start) - (b.episode!.end - b.episode!.start) || b.replyCount - a.replyCount);
+    return covering[0] || null;
+}
+
+// Chapters win when a title names both, since reading progress is counted in chapters.
+function parseChapterRange(title: string): ChapterRange | null {
+    const patterns: [ChapterRange['kind'], RegExp][] = [['chapter', CHAPTER_TITLE_REGEX], ['volume', VOLUME_TITLE_REGEX]];
+    for (const [kind, regex] of patterns) {
+        const match = title.match(regex);
+        if (!match) continue;
+        const start = parseInt(match[1], 10);
+        const end = match[2] ? parseInt(match[2], 10) : start;
+        return { kind, start: Math.min(start, end), end: Math.max(start, end) };
+    }
+    return null;
+}
+
+function formatChapterRange(range: ChapterRange): string {
+    const span = range.start === range.end ? `${range.start}` : `${range.start}–${range.end}`;
+    return range.kind === 'volume' ? `Vol. ${span}` : span;
+}
+
+// The value AniList orders a thread list by, so lists from several media can be merged.
+function threadSortValue(thread: Thread, sort: string): number {
+    switch (sort) {
+        case 'CREATED_AT_DESC': return thread.createdAt;
+        case 'REPLY_COUNT_DESC': return thread.replyCount;
+        case 'VIEW_COUNT_DESC': return thread.viewCount || 0;
+        default: return thread.repliedAt;
+    }
+}
+
+// Where a thread comes from, for lists that mix threads from several media. `withMedia` is set by
+// the forum browser, where a thread can belong to any media.
+function threadOriginLabel(thread: Thread, withMedia: boolean): string | null {
+    if (withMedia && thread.mediaCategories) {
+        return [...thread.mediaCategories.map(media => media.title.userPreferred), ...(thread.categories || []).map(category => category.name)].join(' · ') || null;
+    }
+    return thread.sourceMedia ? thread.sourceMedia.title : null;
+}
+
+// AniList fuzzy dates as a sortable YYYYMMDD number; unknown dates sort last.
+function fuzzyDateValue(date: { year: number | null; month: number | null; day: number | null } | null): number {
+    if (!date?.year) return 99999999;
+    return date.year * 10000 + (date.month || 0) * 100 + (date.day || 0);
+}
+
+// One draft per composer: per thread for new comments, per parent comment for replies, per media for new threads.
+function draftKey(target: DraftTarget): string {
+    switch (target.kind) {
+        case 'comment': return `comment:${target.threadId}`;
+        case 'reply': return `reply:${target.threadId}:${target.commentId}`;
+        case 'edit': return `edit:${target.commentId}`;
+        case 'thread': return `thread:${target.mediaId}`;
+        case 'thread-edit': return `thread-edit:${target.threadId}`;
+    }
+}
+
+// ===================================================================================
+// COMMENT TREE HELPERS
+// ===================================================================================
+
+// AniList returns `childComments` as untyped JSON: nested replies can be null, a JSON string, or
+// objects missing fields, so every level is normalised into a ThreadComment.
+function normalizeComment(raw: any): ThreadComment {
+    let children = raw?.childComments;
+    if (typeof children === 'string') {
+        try { children = JSON.parse(children); } catch (e) { children = []; }
+    }
+    return {
+        id: raw.id,
+        comment: raw.comment || '',
+        createdAt: raw.createdAt || 0,
+        updatedAt: raw.updatedAt || raw.createdAt || 0,
+        likeCount: raw.likeCount || 0,
+        isLiked: !!raw.isLiked,
+        user: { name: raw.user?.name || 'Unknown', avatar: { large: raw.user?.avatar?.large || '' } },
+        childComments: Array.isArray(children) ? children.filter((c: any) => c && c.id).map(normalizeComment) : [],
+    };
+}
+
+function countReplies(comment: ThreadComment): number {
+    return (comment.childComments || []).reduce((total, child) => total + 1 + countReplies(child), 0);
+}
+
+// Newest reply anywhere in the branch, or the comment itself when it has none.
+function latestActivity(comment: ThreadComment): number {
+    return (comment.childComments || []).reduce((latest, child) => Math.max(latest, latestActivity(child)), comment.createdAt);
+}
+
+function isServerCommentSort(mode: CommentSortMode): mode is 'ID' | 'ID_DESC' {
+    return mode === 'ID' || mode === 'ID_DESC';
+}
+
+// Orders top-level comments; replies keep their chronological order. Ties fall back to newest first.
+function sortComments(list: ThreadComment[], mode: CommentSortMode): ThreadComment[] {
+    const score: { [mode in CommentSortMode]: (c: ThreadComment) => number } = {
+        'ID_DESC': c => c.id,
+        'ID': c => -c.id,
+        'TOP': c => c.likeCount,
+        'DISCUSSED': c => countReplies(c),
+        'ACTIVE': c => latestActivity(c),
+    };
+    return [...list].sort((a, b) => (score[mode](b) - score[mode](a)) || (b.id - a.id));
+}
+
+function maxCommentId(list: ThreadComment[]): number {
+    return list.reduce((highest, comment) => Math.max(highest, comment.id, maxCommentId(comment.childComments || [])), 0);
+}
+
+// Comment IDs only grow, so anything above the last seen ID was posted after the last visit.
+function hasCommentNewerThan(comment: ThreadComment, lastSeenId: number): boolean {
+    return comment.id > lastSeenId || (comment.childComments || []).some(child => hasCommentNewerThan(child, lastSeenId));
+}
+
+// The earliest loaded comment posted after `lastSeenId`, replies included. Replies are newer than
+// the comment they answer, so a new comment's replies don't need checking.
+function firstCommentAfter(list: ThreadComment[], lastSeenId: number): ThreadComment | null {
+    let first: ThreadComment | null = null;
+    for (const comment of list) {
+        const candidate = comment.id > lastSeenId && !comment.isOptimistic ? comment : firstCommentAfter(comment.childComments || [], lastSeenId);
+        if (candidate && (!first || candidate.id < first.id)) first = candidate;
+    }
+    return first;
+}
+
+// The chain of comments from a top-level comment down to `id`, or null when it isn't loaded.
+function findCommentPath(list: ThreadComment[], id: number): ThreadComment[] | null {
+    for (const comment of list) {
+        if (comment.id === id) return [comment];
+        const path = findCommentPath(comment.childComments || [], id);
+        if (path) return [comment, ...path];
+    }
+    return null;
+}
+
+function findCommentInTree(list: ThreadComment[], id: number): ThreadComment | null {
+    for (const comment of list) {
+        if (comment.id === id) return comment;
+        const found = findCommentInTree(comment.childComments || [], id);
+        if (found) return found;
+    }
+    return null;
+}
+
+const EMPTY_COMMENT_FILTER: CommentFilter = { query: '', author: '', mineOnly: false, spoilers: false, images: false };
+
+function isCommentFilterActive(filter: CommentFilter): boolean {
+    return !!(filter.query.trim() || filter.author.trim() || filter.mineOnly || filter.spoilers || filter.images);
+}
+
+function commentMatchesFilter(comment: ThreadComment, filter: CommentFilter, myName: string | null, segmentsOf: (comment: ThreadComment) => CommentSegment[] = c => parseComment(c.comment)): boolean {
+    const author = comment.user.name.toLowerCase();
+    if (filter.author.trim() && !author.includes(filter.author.trim().toLowerCase())) return false;
+    if (filter.mineOnly && (!myName || author !== myName.toLowerCase())) return false;
+
+    const segments = segmentsOf(comment);
+    if (filter.spoilers && !hasSegmentType(segments, ['spoiler'])) return false;
+    if (filter.images && !hasSegmentType(segments, ['image', 'gallery'])) return false;
+    if (filter.query.trim() && !segmentsToText(segments).toLowerCase().includes(filter.query.trim().toLowerCase())) return false;
+    return true;
+}
+
+// Keeps matching comments plus the ancestors needed to show them in context.
+function filterCommentTree(list: ThreadComment[], matches: (comment: ThreadComment) => boolean): ThreadComment[] {
+    const kept: ThreadComment[] = [];
+    for (const comment of list) {
+        const children = filterCommentTree(comment.childComments || [], matches);
+        if (children.length > 0 || matches(comment)) kept.push({ ...comment, childComments: children });
+    }
+    return kept;
+}
+
+function countMatchingComments(list: ThreadComment[], matches: (comment: ThreadComment) => boolean): number {
+    return list.reduce((total, comment) => total + (matches(comment) ? 1 : 0) + countMatchingComments(comment.childComments || [], matches), 0);
+}
 
 function init() {
+    // Hooks run outside the tray's context, so progress updates are handed over through the store.
+    // The event doesn't always carry a progress, and manga updates are weeded out by the tray.
+    $app.onPostUpdateEntryProgress((e: any) => {
+        if (e.mediaId && Number.isInteger(e.progress) && e.progress > 0) {
+            $store.set(PROGRESS_UPDATED_STORE_KEY, { mediaId: e.mediaId, progress: e.progress });
+        }
+        e.next();
+    });
+
     $ui.register((ctx) => {
 
         // --- Function to inject final custom scrollbar styles ---
@@ -86,13 +1392,6 @@ function init() {
 
         // --- HELPER FUNCTIONS ---
 
-        function decodeHtmlEntities(text: string): string {
-            if (!text) return "";
-            return text.replace(/&#(\d+);/g, (match, dec) => {
-                return String.fromCodePoint(parseInt(dec, 10));
-            }).replace(/&/g, '&').replace(/</g, '<').replace(/>/g, '>');
-        }
-        
         // --- SVG Icon Definitions ---
         const eyeIconSvg = `<svg aria-hidden="true" focusable="false" role="img" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 576 512"><path fill="currentColor" d="M572.52 241.4C518.29 135.59 410.93 64 288 64S57.68 135.64 3.48 241.41a32.35 32.35 0 0 0 0 29.19C57.71 376.41 165.07 448 288 448s230.32-71.64 284.52-177.41a32.35 32.35 0 0 0 0-29.19zM288 400a144 144 0 1 1 144-144 143.93 143.93 0 0 1-144 144zm0-240a95.31 95.31 0 0 0-25.31 3.79 47.85 47.85 0 0 1-66.9 66.9A95.78 95.78 0 1 0 288 160z"></path></svg>`;
         const commentsIconSvg = `<svg aria-hidden="true" focusable="false" role="img" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 576 512"><path fill="currentColor" d="M416 192c0-88.4-93.1-160-208-160S0 103.6 0 192c0 34.3 14.1 65.9 38 92-13.4 30.2-35.5 54.2-35.8 54.5-2.2 2.3-2.8 5.7-1.5 8.7S4.8 352 8 352c36.6 0 66.9-12.3 88.7-25 32.2 15.7 70.3 25 111.3 25 114.9 0 208-71.6 208-160zm122 220c23.9-26 38-57.7 38-92 0-66.9-53.5-124.2-129.3-148.1.9 6.6 1.3 13.3 1.3 20.1 0 105.9-107.7 192-240 192-10.8 0-21.3-.8-31.7-1.9C207.8 439.6 281.8 480 368 480c41 0 79.1-9.2 111.3-25 21.8 12.7 52.1 25 88.7 25 3.2 0 6.1-1.9 7.3-4.8 1.3-2.9.7-6.3-1.5-8.7-.3-.3-22.4-24.2-35.8-54.5z"></path></svg>`;
@@ -116,218 +1415,26 @@ function init() {
         }
 
         // ===================================================================================
-        // START OF NEW PARSING ENGINE
-        // This version correctly handles all AniList formatting, including nesting.
+        // START OF SEGMENT RENDERER
+        // Turns the `CommentSegment[]` produced by `parseComment` into tray components.
         // ===================================================================================
 
-        function parseComment(text: string): CommentSegment[] {
-            const cleanedText = decodeHtmlEntities(text.replace(/<br>/g, '\n'));
-
-            const blocks: (string | { type: 'code-block' | 'center' | 'spoiler' | 'bold' | 'blockquote'; content: string | CommentSegment[] })[] = [];
-            let remainingText = cleanedText;
-
-            const multilineRegex = /(^```([\s\S]*?)```)|(^~~~([\s\S]*?)~~~)|(^~!([\s\S]*?)!~)|(^__([\s\S]*?)__(?=\n\n|\n$|$))|(^<blockquote>([\s\S]*?)<\/blockquote>)/gm;
-            let lastIndex = 0;
-            let match;
-            while ((match = multilineRegex.exec(remainingText)) !== null) {
-                if (match.index > lastIndex) {
-                    blocks.push(remainingText.substring(lastIndex, match.index));
-                }
-                if (match[2] !== undefined) {
-                    blocks.push({ type: 'code-block', content: match[2] });
-                } else if (match[4] !== undefined) {
-                    blocks.push({ type: 'center', content: match[4] });
-                } else if (match[6] !== undefined) {
-                    blocks.push({ type: 'spoiler', content: parseComment(match[6]) });
-                } else if (match[8] !== undefined) {
-                    blocks.push({ type: 'bold', content: parseComment(match[8]) });
-                } else if (match[10] !== undefined) {
-                    blocks.push({ type: 'blockquote', content: parseComment(match[10]) });
-                }
-                lastIndex = match.index + match[0].length;
-            }
-            if (lastIndex < remainingText.length) {
-                blocks.push(remainingText.substring(lastIndex));
-            }
-
-            const inlineRules = [
-                { type: 'user-link', regex: /^@([\w-]+)/, process: (m: RegExpMatchArray) => ({ content: m[0], username: m[1] }) },
-                { type: 'image', regex: /^<a\s+href="([^"]+)"[^>]*>\s*<img[^>]*\s(?:data-src|src)="([^"]+)"[^>]*>\s*<\/a>/i, process: (m:RegExpMatchArray) => ({ url: m[1], content: m[2] }) },
-                { type: 'image', regex: /^<img[^>]*\s(?:data-src|src)="([^"]+)"[^>]*>/i, process: (m: RegExpMatchArray) => ({ content: m[1] }) },
-                { type: 'bold', regex: /^<b>([\s\S]*?)<\/b>/i, process: (m: RegExpMatchArray) => ({ content: parseInline(m[1]) }) },
-                { type: 'italic', regex: /^<i>([\s\S]*?)<\/i>/i, process: (m: RegExpMatchArray) => ({ content: parseInline(m[1]) }) },
-                { type: 'underline', regex: /^<u>([\s\S]*?)<\/u>/i, process: (m: RegExpMatchArray) => ({ content: parseInline(m[1]) }) },
-                { type: 'strike', regex: /^<s>([\s\S]*?)<\/s>/i, process: (m: RegExpMatchArray) => ({ content: parseInline(m[1]) }) },
-                { type: 'strike', regex: /^<strike>([\s\S]*?)<\/strike>/i, process: (m: RegExpMatchArray) => ({ content: parseInline(m[1]) }) },
-                {
-                    type: 'bold-italic',
-                    regex: /^\_\_\_([\s\S]+?)\_\_\_/, // For three underscores
-                    process: (m: RegExpMatchArray) => ({ content: parseInline(m[1]) })
-                },
-                {
-                    type: 'bold-italic',
-                    regex: /^\*\*\*([\s\S]+?)\*\*\*/, // For three asterisks
-                    process: (m: RegExpMatchArray) => ({ content: parseInline(m[1]) })
-                },
-                {
-                    type: 'bold-italic',
-                    regex: /^___([\s\S]+?)_/,
-                    process: (m: RegExpMatchArray) => ({ content: parseInline(m[1]) })
-                },
-                { type: 'link', regex: /^<a\s+href="([^"]+)"[^>]*>([\s\S]*?)<\/a>/i, process: (m: RegExpMatchArray) => ({ content: parseInline(m[2]), url: m[1] }) },
-                { type: 'image', regex: /^img([\d%]*)\((.*)\)/, process: (m: RegExpMatchArray) => ({ content: m[2] }) },
-                { type: 'youtube', regex: /^youtube\(([^)]+)\)/, process: (m: RegExpMatchArray) => ({ type: 'link', url: `https://www.youtube.com/watch?v=${m[1]}`, content: `youtube.com/watch?v=${m[1]}` }) },
-                { type: 'video', regex: /^video\(([^)]+)\)/, process: (m: RegExpMatchArray) => ({ type: 'link', url: m[1], content: m[1] }) },
-                { type: 'link', regex: /^\[([^\]]+)\]\(([^)]+)\)/, process: (m: RegExpMatchArray) => ({ content: m[1], url: m[2] }) },
-                { type: 'center', regex: /^~~~([\s\S]*?)~~~/, process: (m: RegExpMatchArray) => ({ content: parseInline(m[1]) }) },
-                { type: 'bold', regex: /^\*\*([\s\S]+?)\*\*|^\_\_([\s\S]+?)\_\_/, process: (m: RegExpMatchArray) => ({ content: parseInline(m[1] || m[2]) }) },
-                { type: 'italic', regex: /^\*([\s\S]+?)\*|^\_([\s\S]+?)\_/, process: (m: RegExpMatchArray) => ({ content: parseInline(m[1] || m[2]) }) },
-                { type: 'strike', regex: /^~~(?!~)([\s\S]+?)(?<!~)~~/, process: (m: RegExpMatchArray) => ({ content: parseInline(m[1]) }) },
-                { type: 'spoiler', regex: /^!~([\s\S]+?)!~/, process: (m: RegExpMatchArray) => ({ content: parseInline(m[1]) }) },
-                { type: 'spoiler', regex: /^~!([\s\S]+?)!~/, process: (m: RegExpMatchArray) => ({ content: parseInline(m[1]) }) },
-                { type: 'inline-code', regex: /^`([^`]+?)`/, process: (m: RegExpMatchArray) => ({ content: m[1] }) },
-                { type: 'link', regex: /^(https?:\/\/[^\s<>"'{}|\\^`[\]]+)/, process: (m: RegExpMatchArray) => ({ content: m[1], url: m[1] }) },
-            ];
-
-            const lineStartRules = [
-                {
-                    type: 'center',
-                    regex: /^#<center>(.*)/,
-                    process: (m: RegExpMatchArray) => {
-                        let content = m[1]; 
-                        if (content.startsWith('____') && content.endsWith('____')) {
-                            content = `___${content.slice(4, -4)}___`;
-                        }
-                        return { content: parseInline(content) };
-                    }
-                },
-                { type: 'heading', regex: /^(#{1,5})\s+(.*)/, process: (m: RegExpMatchArray) => ({ content: parseInline(m[2]), level: m[1].length }) },
-                { type: 'heading', regex: /^<h([1-6])>([\s\S]*?)<\/h\1>/i, process: (m: RegExpMatchArray) => ({ content: parseInline(m[2]), level: parseInt(m[1], 10) }) },
-                { type: 'blockquote', regex: /^>\s?(.*)/, process: (m: RegExpMatchArray) => ({ content: parseInline(m[1]) }) },
-                { type: 'hr', regex: /^(---|___|__|<hr\s*\/?>)\s*$/i, process: () => ({ content: '' }) },
-            ];
-
-            const loneFormatterRules = [
-                { type: 'bold', regex: /^\*\*([\s\S]+?)\*\*$/, process: (m: RegExpMatchArray) => parseInline(m[1]) },
-                { type: 'bold', regex: /^\_\_([\s\S]+?)\_\_$/, process: (m: RegExpMatchArray) => parseInline(m[1]) },
-                { type: 'italic', regex: /^\*([\s\S]+?)\*$/, process: (m: RegExpMatchArray) => parseInline(m[1]) },
-                { type: 'italic', regex: /^\_([\s\S]+?)\_$/, process: (m: RegExpMatchArray) => parseInline(m[1]) },
-                { type: 'strike', regex: /^~~([\s\S]+?)~~$/, process: (m: RegExpMatchArray) => parseInline(m[1]) },
-            ];
-
-            function parseInline(line: string): CommentSegment[] {
-                if (!line) return [];
-                const segments: CommentSegment[] = [];
-                let text = line;
-
-                while (text.length > 0) {
-                    let matched = false;
-                    for (const rule of inlineRules) {
-                        const match = text.match(rule.regex);
-                        if (match) {
-                            matched = true;
-                            const processed = rule.process(match);
-                            segments.push({ type: rule.type as CommentSegment['type'], ...processed });
-                            text = text.slice(match[0].length);
-                            break;
-                        }
-                    }
-
-                    if (!matched) {
-                        const nextTokenIndex = text.search(/(@[\w-]+|\[|!~|~!|https?:\/\/|`|\*\*|\*|__|_|~~~|~~|img\(|youtube\(|video\(|<[a|img|b|i|u|s|strike])/);
-                        const plainTextEnd = nextTokenIndex === -1 ? text.length : nextTokenIndex;
-                        const plainText = text.slice(0, plainTextEnd > 0 ? plainTextEnd : 1);
-
-                        const lastSegment = segments[segments.length - 1];
-                        if (lastSegment && lastSegment.type === 'text') {
-                             (lastSegment.content as string) += plainText;
-                        } else {
-                            segments.push({ type: 'text', content: plainText });
-                        }
-                        text = text.slice(plainText.length);
-                    }
-                }
-                return segments;
-            }
-
-            const resultSegments: CommentSegment[] = [];
-            for (const block of blocks) {
-                if (typeof block === 'object') {
-                    if ((block.type === 'center' || block.type === 'blockquote') && typeof block.content === 'string') {
-                         resultSegments.push({ type: block.type, content: parseComment(block.content) });
-                    } else if (block.type === 'spoiler' || block.type === 'bold') {
-                         resultSegments.push({ type: block.type, content: block.content as CommentSegment[] });
-                    } else {
-                        resultSegments.push(block as CommentSegment);
-                    }
-                } else {
-                    const lines = block.split('\n');
-                    for (let i = 0; i < lines.length; i++) {
-                        const line = lines[i];
-                        if (!line && i < lines.length -1) {
-                            resultSegments.push({ type: 'br', content: '' });
-                            continue;
-                        }
-
-                        let isLoneFormatter = false;
-                        for (const rule of loneFormatterRules) {
-                            // Match against the line (allowing for surrounding whitespace)
-                            const match = line.match(rule.regex);
-                            if (match) {
-                                isLoneFormatter = true;
-
-                                // Extract the text inside the formatting (e.g., "Now Let's Set Sail To Season 3!")
-                                const innerContent = match[1];
-
-                                // Parse that inner text for any other markdown
-                                const parsedInnerSegments = parseInline(innerContent);
-
-                                // Create the correct nested structure:
-                                // A 'center' block containing an 'italic' block, which holds the final content.
-                                resultSegments.push({
-                                    type: 'center',
-                                    content: [{
-                                        type: rule.type as 'bold' | 'italic' | 'strike',
-                                        content: parsedInnerSegments,
-                                    }]
-                                });
-                                break; // Rule matched, no need to check others
-                            }
-                        }
-
-                        if (isLoneFormatter) {
-                            if (i < lines.length - 1) resultSegments.push({ type: 'br', content: '' });
-                            continue; // Skip to the next line
-                        }
-
-                        let matchedLineRule = false;
-                        for(const rule of lineStartRules) {
-                            const match = line.match(rule.regex);
-                            if(match) {
-                                matchedLineRule = true;
-                                resultSegments.push({ type: rule.type as CommentSegment['type'], ...rule.process(match) });
-                                break;
-                            }
-                        }
-
-                        if (!matchedLineRule && line) {
-                            resultSegments.push(...parseInline(line));
-                        }
-                        if (i < lines.length - 1) {
-                            resultSegments.push({ type: 'br', content: '' });
-                        }
-                    }
-                }
-            }
-
-            return resultSegments;
-        }
-
         function renderSegment(segment: CommentSegment, key: string): any {
             const textStyle = { wordBreak: 'normal' as const, overflowWrap: 'break-word' as const, lineHeight: '1.6', display: 'inline' };
 
+            // Search matches in the open thread are highlighted wherever plain text is drawn.
+            const renderText = (text: string) => {
+                const query = view.get() === 'thread' ? commentFilter.get().query.trim() : '';
+                const parts = splitOnMatches(text, query);
+                if (parts.length === 1 && !parts[0].match) return tray.text({ text, style: textStyle });
+                return tray.div(parts.map(part => tray.text({
+                    text: part.text,
+                    style: part.match ? { ...textStyle, backgroundColor: 'rgba(236, 201, 75, 0.35)', borderRadius: '2px' } : textStyle
+                })), { style: { display: 'inline' } });
+            };
+
             const renderContent = (content: string | CommentSegment[]) => {
-                if (typeof content === 'string') return [tray.text({ text: content, style: textStyle })];
+                if (typeof content === 'string') return [renderText(content)];
                 return content.map((subSegment, index) => renderSegment(subSegment, `${key}-${index}`));
             };
 
@@ -336,7 +1443,7 @@ function init() {
             };
 
             switch (segment.type) {
-                case 'text': return tray.text({ text: segment.content as string, style: textStyle });
+                case 'text': return renderText(segment.content as string);
                 case 'br': return tray.div([], { style: { height: '0.5em', width: '100%', display: 'block' } });
 			    case 'bold-italic': return createWrapper(renderContent(segment.content as CommentSegment[]), { fontWeight: 'bold', fontStyle: 'italic' });
                 case 'bold': return createWrapper(renderContent(segment.content as CommentSegment[]), { fontWeight: 'bold' });
@@ -349,6 +1456,42 @@ function init() {
                 case 'center': return createWrapper(renderContent(segment.content as CommentSegment[]), { textAlign: 'center', margin: '8px 0' }, 'block');
                 case 'inline-code': return tray.text({ text: segment.content as string, style: { fontFamily: 'monospace', backgroundColor: '#2D3748', padding: '2px 4px', borderRadius: '4px', ...textStyle } });
                 case 'code-block': return tray.div([tray.text({text: segment.content as string, style: { ...textStyle, display: 'block' }})], { style: { fontFamily: 'monospace', backgroundColor: '#1A202C', padding: '8px', borderRadius: '4px', whiteSpace: 'pre-wrap', width: '100%', display: 'block', margin: '8px 0' } });
+                case 'paragraph': return createWrapper(renderContent(segment.content), { margin: '4px 0' }, 'block');
+                case 'div': return createWrapper(renderContent(segment.content), { textAlign: segment.align || 'left' }, 'block');
+                case 'span': return createWrapper(renderContent(segment.content), {});
+
+                case 'list':
+                case 'ordered-list':
+                    const listStart = segment.type === 'ordered-list' ? segment.start : 1;
+                    return tray.stack(segment.content.map((item, itemIndex) =>
+                        tray.flex([
+                            tray.text({ text: segment.type === 'ordered-list' ? `${listStart + itemIndex}.` : '•', style: { ...textStyle, color: '#A0AEC0', minWidth: '1.5em', flexShrink: 0 } }),
+                            tray.div(item.map((subSegment, index) => renderSegment(subSegment, `${key}-${itemIndex}-${index}`)), { style: { flexGrow: 1, minWidth: 0, display: 'block' } })
+                        ], { style: { gap: 1, alignItems: 'baseline' } })
+                    ), { style: { gap: 1, paddingLeft: '12px', margin: '4px 0' } });
+
+                case 'table':
+                    const columnAlign = segment.align;
+                    const renderTableRow = (cells: CommentSegment[][], rowKey: string, isHeader: boolean) => tray.flex(
+                        segment.header.map((_, cellIndex) =>
+                            tray.div((cells[cellIndex] || []).map((subSegment, index) => renderSegment(subSegment, `${rowKey}-${cellIndex}-${index}`)), {
+                                style: {
+                                    flex: 1,
+                                    minWidth: 0,
+                                    padding: '4px 8px',
+                                    display: 'block',
+                                    textAlign: columnAlign[cellIndex] || 'left',
+                                    fontWeight: isHeader ? 'bold' : 'normal',
+                                    borderLeft: cellIndex > 0 ? '1px solid #2D3748' : 'none',
+                                }
+                            })
+                        ),
+                        { style: { backgroundColor: isHeader ? '#1A202C' : 'transparent', borderBottom: '1px solid #2D3748' } }
+                    );
+                    return tray.stack([
+                        renderTableRow(segment.header, `${key}-head`, true),
+                        ...segment.content.map((row, rowIndex) => renderTableRow(row, `${key}-row-${rowIndex}`, false))
+                    ], { style: { gap: 0, border: '1px solid #2D3748', borderRadius: '4px', margin: '8px 0', overflowX: 'auto' } });
                 
                 case 'spoiler':
                     const isRevealed = revealedSpoilers.get()[key];
@@ -394,12 +1537,14 @@ function init() {
                 case 'image':
                     const imageUrl = segment.content as string;
                     const linkUrlForImage = segment.url || imageUrl;
+                    // Authors size images with img220(...) or img50%(...); the tray keeps them within its width.
+                    const imageWidth = segment.width ? (segment.width.endsWith('%') ? segment.width : `${segment.width}px`) : '100%';
                     return tray.stack([
                         tray.stack([
                             tray.div([], { 
                                 style: { 
-                                    width: '100%', 
-                                    maxWidth: '300px', 
+                                    width: imageWidth, 
+                                    maxWidth: segment.width ? '100%' : '300px', 
                                     aspectRatio: '16 / 9', 
                                     backgroundImage: `url("${imageUrl}")`, 
                                     backgroundSize: 'contain', 
@@ -412,7 +1557,7 @@ function init() {
                             }),
                             tray.button({
                                 label: ' ',
-                                onClick: ctx.eventHandler(`view-image-${key}`, () => imageToView.set(imageUrl)),
+                                onClick: ctx.eventHandler(`view-image-${key}`, () => openImageViewer(imageUrl, key)),
                                 style: {
                                     position: 'absolute', top: 0, left: 0, width: '100%', height: '100%',
                                     background: 'transparent', border: 'none', cursor: 'pointer',
@@ -423,8 +1568,36 @@ function init() {
                             tray.text({ text: "Image may not load.", size: "sm", color: "gray" }),
                             ...(linkUrlForImage ? [tray.button({ label: "Open Link", intent: 'link', size: 'sm', onClick: ctx.eventHandler(`${key}-open`, () => linkConfirmation.set({ url: linkUrlForImage, message: "Are you sure you want to open this link?" })) })] : [])
                         ], { style: { gap: 2, alignItems: 'center', marginTop: '2px' } })
-                    ], { style: { gap: 1, marginTop: '4px', display: 'inline-block' } });
-                
+                    ], { style: { gap: 1, marginTop: '4px', display: segment.width ? 'block' : 'inline-block' } });
+
+                case 'gallery':
+                    return tray.stack([
+                        tray.flex(segment.content.map((image, index) =>
+                            tray.stack([
+                                tray.div([], {
+                                    style: {
+                                        width: '140px',
+                                        height: '100px',
+                                        backgroundImage: `url("${image.content}")`,
+                                        backgroundSize: 'cover',
+                                        backgroundPosition: 'center',
+                                        borderRadius: '4px',
+                                        border: '1px solid #2D3748',
+                                    }
+                                }),
+                                tray.button({
+                                    label: ' ',
+                                    onClick: ctx.eventHandler(`view-gallery-${key}-${index}`, () => openImageViewer(image.content, key)),
+                                    style: {
+                                        position: 'absolute', top: 0, left: 0, width: '100%', height: '100%',
+                                        background: 'transparent', border: 'none', cursor: 'pointer',
+                                    }
+                                })
+                            ], { style: { position: 'relative' } })
+                        ), { style: { gap: 2, flexWrap: 'wrap' } }),
+                        tray.text({ text: `${segment.content.length} images · click to browse`, size: "sm", color: "gray" })
+                    ], { style: { gap: 1, margin: '4px 0', display: 'block' } });
+
                 case 'link':
                      const linkContent = segment.content;
                      if(Array.isArray(linkContent) && linkContent.length > 0) {
@@ -433,6 +1606,43 @@ function init() {
                     const linkText = (segment.content as string).length > 50 ? (segment.content as string).substring(0, 47) + '...' : (segment.content as string);
                     return tray.button({ label: linkText, intent: 'link', size: 'sm', onClick: ctx.eventHandler(key, () => linkConfirmation.set({ url: segment.url!, message: "Are you sure you want to open this link?" })) });
 
+                case 'youtube':
+                case 'video':
+                    const isYoutube = segment.type === 'youtube';
+                    const mediaUrl = segment.url;
+                    const playMedia = ctx.eventHandler(`${key}-play`, () => linkConfirmation.set({ url: mediaUrl, message: "Are you sure you want to open this video?" }));
+                    return tray.flex([
+                        tray.stack([
+                            tray.div(isYoutube ? [] : [tray.text({ text: '▶', size: 'lg', color: 'gray' })], {
+                                style: {
+                                    width: '160px',
+                                    aspectRatio: '16 / 9',
+                                    borderRadius: '4px',
+                                    backgroundColor: '#1A202C',
+                                    backgroundImage: isYoutube ? `url("https://img.youtube.com/vi/${segment.content}/hqdefault.jpg")` : 'none',
+                                    backgroundSize: 'cover',
+                                    backgroundPosition: 'center',
+                                    display: 'flex',
+                                    alignItems: 'center',
+                                    justifyContent: 'center',
+                                }
+                            }),
+                            tray.button({
+                                label: ' ',
+                                onClick: playMedia,
+                                style: {
+                                    position: 'absolute', top: 0, left: 0, width: '100%', height: '100%',
+                                    background: 'transparent', border: 'none', cursor: 'pointer',
+                                }
+                            })
+                        ], { style: { position: 'relative', flexShrink: 0 } }),
+                        tray.stack([
+                            tray.text({ text: isYoutube ? "YouTube video" : segment.content, weight: 'semibold', size: 'sm', style: { wordBreak: 'break-all' } }),
+                            tray.text({ text: segment.type === 'video' ? segment.host : `youtube.com/watch?v=${segment.content}`, size: 'sm', color: 'gray' }),
+                            tray.button({ label: "▶ Play", intent: 'primary-subtle', size: 'sm', onClick: playMedia, style: { alignSelf: 'flex-start' } })
+                        ], { style: { gap: 1, minWidth: 0 } })
+                    ], { style: { gap: 3, alignItems: 'center', padding: '8px', border: '1px solid #2D3748', borderRadius: '8px', backgroundColor: 'rgba(255, 255, 255, 0.03)', margin: '4px 0', maxWidth: '420px' } });
+
                 case 'user-link':
                     const userUrl = `https://anilist.co/user/${segment.username}`;
                     return tray.button({
@@ -448,7 +1658,7 @@ function init() {
         }
 
         // ===================================================================================
-        // END OF NEW PARSING ENGINE
+        // END OF SEGMENT RENDERER
         // ===================================================================================
 
         function formatTimeAgo(timestamp: number): string {
@@ -474,14 +1684,54 @@ function init() {
         // --- STATE MANAGEMENT ---
         const currentUser = ctx.state<User | null>(null);
         const currentMediaId = ctx.state<number | null>(null);
+        const currentMediaType = ctx.state<MediaType>('ANIME');
         const currentMediaTitle = ctx.state<string | null>(null);
-        const view = ctx.state<'list' | 'thread' | 'create' | 'edit-thread'>('list');
+        const view = ctx.state<'list' | 'thread' | 'create' | 'edit-thread' | 'notifications' | 'drafts'>('list');
+        // The list shows the forum browser instead of the media's threads while this is set, and always off an entry page.
+        const isForumBrowserOpen = ctx.state(false);
+        const forumQuery = ctx.state<ForumQuery>({ categoryId: null, search: '' });
+        const forumSearchInputRef = ctx.fieldRef<string>("");
+        const forumThreads = ctx.state<Thread[] | null>(null);
+        const forumPage = ctx.state(1);
+        const forumHasNextPage = ctx.state(false);
+        const forumCachedAt = ctx.state<number | null>(null);
+        // Bumped per forum load so a slow response for an older query or sort is dropped.
+        let forumLoadId = 0;
         const selectedThread = ctx.state<Thread | null>(null);
         const comments = ctx.state<ThreadComment[] | null>(null);
         const revealedSpoilers = ctx.state<{ [key: string]: boolean }>({});
         const isLoading = ctx.state(false);
-        const error = ctx.state<string | null>(null);
+        // Kept apart from `isLoading` so a thread list loading behind an open thread can't clear it.
+        const isLoadingComments = ctx.state(false);
+        const error = ctx.state<AnilistError | null>(null);
         const replyingToCommentId = ctx.state<number | null>(null);
+        const expandedBranches = ctx.state<{ [commentId: number]: boolean }>({});
+        const focusedCommentId = ctx.state<number | null>(null);
+        const threadVisits = ctx.state<{ [threadId: number]: ThreadVisit }>($storage.get(STORAGE_KEYS.threadVisits) || {});
+        // The visit as it was when the open thread was entered, so markers survive the visit being updated.
+        const previousVisit = ctx.state<ThreadVisit | null>(null);
+        const followedThreads = ctx.state<{ [threadId: number]: FollowedThread }>($storage.get(STORAGE_KEYS.followedThreads) || {});
+        // Set by a reply notification; the next time the tray opens it goes straight to this thread.
+        const pendingThread = ctx.state<Thread | null>(null);
+        // Set when a finished episode has no thread yet; the next time the tray opens one is started for it.
+        const pendingEpisodeThread = ctx.state<{ mediaId: number; mediaTitle: string; episode: number } | null>(null);
+        const episodeFinishedAction = ctx.state<EpisodeFinishedAction>($storage.get(STORAGE_KEYS.episodeFinishedAction) || 'suggest');
+        // A comment to bring into view once the open thread's comments have loaded, and the one to highlight.
+        const pendingCommentTarget = ctx.state<{ threadId: number; commentId: number } | null>(null);
+        const highlightedCommentId = ctx.state<number | null>(null);
+        const notifications = ctx.state<ForumNotification[] | null>(null);
+        const notificationsPage = ctx.state(1);
+        const notificationsHasNextPage = ctx.state(false);
+        const isLoadingNotifications = ctx.state(false);
+        // AniList timestamps (seconds) of the newest notification seen, now and as of opening the view.
+        const notificationsSeenAt = ctx.state<number>($storage.get(STORAGE_KEYS.notificationsSeenAt) || 0);
+        const previousNotificationsSeenAt = ctx.state<number>(0);
+        const unreadNotificationCount = ctx.state(0);
+        const commentFilter = ctx.state<CommentFilter>(EMPTY_COMMENT_FILTER);
+        const isFilterBarOpen = ctx.state(false);
+        const isLoadingAllComments = ctx.state(false);
+        const commentSearchInputRef = ctx.fieldRef<string>("");
+        const commentAuthorInputRef = ctx.fieldRef<string>("");
         const editingCommentId = ctx.state<number | null>(null);
         const isReplyingToThread = ctx.state(false);
         const isSubmitting = ctx.state(false);
@@ -491,35 +1741,165 @@ function init() {
         const threadBodyInputRef = ctx.fieldRef<string>("");
         const actionConfirmation = ctx.state<{ message: string; onConfirm: () => void; } | null>(null);
         const linkConfirmation = ctx.state<{ url: string; message: string; } | null>(null);
-        const imageToView = ctx.state<string | null>(null);
-        const commentSort = ctx.state<'ID' | 'ID_DESC'>('ID_DESC');
+        const sharedCommentLink = ctx.state<string | null>(null);
+        // Threads sharing one episode or chapter button, listed so the user can pick one.
+        const releaseThreadPicker = ctx.state<{ label: string; threads: Thread[] } | null>(null);
+        const drafts = ctx.state<{ [key: string]: Draft }>($storage.get(STORAGE_KEYS.drafts) || {});
+        // Composers whose restore prompt was answered; cleared whenever a composer opens.
+        const dismissedDraftPrompts = ctx.state<{ [key: string]: boolean }>({});
+        // A new-thread draft waiting for navigation to its media to finish.
+        const pendingDraftKey = ctx.state<string | null>(null);
+        const sharedLinkInputRef = ctx.fieldRef<string>("");
+        const imageToView = ctx.state<{ url: string; source: string; scope: 'comment' | 'thread'; zoom: number } | null>(null);
+        // Stored per AniList account; '' holds the choice made before the viewer has loaded.
+        const storedCommentSort = (userName: string): CommentSortMode => ($storage.get(STORAGE_KEYS.commentSort) || {})[userName] || 'ID_DESC';
+        const commentSort = ctx.state<CommentSortMode>(storedCommentSort(''));
         const threadSort = ctx.state<string>('REPLIED_AT_DESC');
         const isSortMenuOpen = ctx.state(false);
         const commentsPage = ctx.state(1);
         const commentsHasNextPage = ctx.state(false);
-        const fetchingMediaId = ctx.state<number | null>(null);
         const selectionState = ctx.state<{ start: number, end: number, text: string } | null>(null);
+        const isComposerPreviewOpen = ctx.state(false);
+        const toolbarPopover = ctx.state<'mention' | 'emoji' | null>(null);
+        const mediaInsertDialog = ctx.state<{ kind: MediaInsertKind; error: string | null } | null>(null);
+        const mediaUrlInputRef = ctx.fieldRef<string>("");
+        const mediaWidthInputRef = ctx.fieldRef<string>("");
+        // The composer field the media dialog inserts into; not state because it's never rendered.
+        let mediaInsertTarget: any = null;
+        // Bumped when a composer's text is changed from code, so the preview redraws.
+        const composerRevision = ctx.state(0);
         const episodeDiscussions = ctx.state<Thread[]>([]);
         const generalDiscussions = ctx.state<Thread[]>([]);
-        const displayedGeneralDiscussions = ctx.state<Thread[]>([]);
         const generalDiscussionsPage = ctx.state(1);
         const generalDiscussionsHasNextPage = ctx.state(false);
+        const isLoadingMoreThreads = ctx.state(false);
         const GENERAL_DISCUSSIONS_PER_PAGE = 20;
+        const isRefreshing = ctx.state(false);
+        const isRefreshingComments = ctx.state(false);
+        const throttleSecondsLeft = ctx.state(0);
+        const threadsCachedAt = ctx.state<number | null>(null);
+        const commentsCachedAt = ctx.state<number | null>(null);
+        const spoilerSafety = ctx.state<boolean>($storage.get(STORAGE_KEYS.spoilerSafety) ?? true);
+        const includeRelatedMedia = ctx.state<boolean>($storage.get(STORAGE_KEYS.includeRelatedMedia) ?? false);
+        // Set while the list includes related seasons; see ThreadsSnapshot.
+        const franchiseMedia = ctx.state<FranchiseMedia[] | null>(null);
+        const franchisePages = ctx.state<{ [mediaId: number]: { page: number; hasNextPage: boolean } }>({});
+        const watchProgress = ctx.state<number | null>(null);
+        const spoilerShieldActive = ctx.state(false);
+
+
+        // --- REQUEST SCHEDULER ---
+        // Every AniList call goes through here: at most REQUEST_CONCURRENCY requests in flight,
+        // spacing when the rate-limit budget runs low, and a shared pause after a 429 or 5xx
+        // so queued requests wait it out too. A 5xx may come after the write went through, so
+        // requests that aren't `idempotent` (mutations) are only retried after a 429.
+        const sleep = (ms: number) => new Promise<void>(resolve => ctx.setTimeout(() => resolve(), ms));
+
+        const requestScheduler = {
+            _active: 0,
+            _waiting: [] as (() => void)[],
+            _pausedUntil: 0,
+            _remaining: null as number | null,
+            _limit: 90,
+            _acquire: async function() {
+                if (this._active >= REQUEST_CONCURRENCY) {
+                    await new Promise<void>(resolve => this._waiting.push(resolve));
+                }
+                this._active++;
+            },
+            _release: function() {
+                this._active--;
+                const next = this._waiting.shift();
+                if (next) next();
+            },
+            _waitForBudget: async function() {
+                const pause = this._pausedUntil - Date.now();
+                if (pause > 0) await sleep(pause);
+                if (this._remaining !== null && this._remaining <= RATE_LIMIT_RESERVE) {
+                    await sleep(Math.ceil(60 * 1000 / this._limit));
+                }
+            },
+            _recordHeaders: function(res: any) {
+                const remaining = parseInt(readHeader(res, 'X-RateLimit-Remaining') || '', 10);
+                const limit = parseInt(readHeader(res, 'X-RateLimit-Limit') || '', 10);
+                if (!isNaN(remaining)) this._remaining = remaining;
+                if (!isNaN(limit) && limit > 0) this._limit = limit;
+            },
+            // Background work skips a round instead of eating into the budget left for what the user is doing.
+            hasSpareBudget: function() {
+                return Date.now() >= this._pausedUntil && this._waiting.length === 0 && (this._remaining === null || this._remaining > RATE_LIMIT_RESERVE * 3);
+            },
+            _pause: function(ms: number) {
+                this._pausedUntil = Math.max(this._pausedUntil, Date.now() + ms);
+                this._remaining = null;
+                startThrottleCountdown(this._pausedUntil);
+            },
+            run: async function(request: () => Promise<any>, idempotent: boolean = true): Promise<any> {
+                await this._acquire();
+                try {
+                    for (let attempt = 0; ; attempt++) {
+                        await this._waitForBudget();
+                        const res = await request();
+                        this._recordHeaders(res);
 
+                        const isRetryable = res.status === 429 || (idempotent && res.status >= 500);
+                        if (!isRetryable || attempt >= REQUEST_MAX_RETRIES) return res;
+
+                        const retryAfter = parseInt(readHeader(res, 'Retry-After') || '', 10);
+                        this._pause(!isNaN(retryAfter) ? retryAfter * 1000 + Math.floor(Math.random() * REQUEST_BASE_DELAY_MS) : backoffDelay(attempt));
+                    }
+                } finally {
+                    this._release();
+                }
+            }
+        };
+
+        // Drives the "AniList is throttling" notice; ticks once a second until the pause is over.
+        let throttleTicking = false;
+        const startThrottleCountdown = (pausedUntil: number) => {
+            throttleSecondsLeft.set(Math.ceil((pausedUntil - Date.now()) / 1000));
+            if (throttleTicking) return;
+            throttleTicking = true;
+            const tick = () => {
+                const secondsLeft = Math.ceil((requestScheduler._pausedUntil - Date.now()) / 1000);
+                throttleSecondsLeft.set(Math.max(0, secondsLeft));
+                if (secondsLeft > 0) ctx.setTimeout(tick, 1000);
+                else throttleTicking = false;
+            };
+            ctx.setTimeout(tick, 1000);
+        };
 
         // --- API SERVICE (ABSTRACTION) ---
         const anilistApi = {
-            _fetch: async function(query: string, variables: any) {
+            // `allowPartial` reads the data of a batch query whose only errors are items that no longer exist.
+            _fetch: async function(query: string, variables: any, options: { allowPartial?: boolean } = {}) {
                 const token = $database.anilist.getToken();
-                if (!token) throw new Error("Not authenticated with AniList.");
-                const res = await ctx.fetch("https://graphql.anilist.co", {
-                    method: 'POST',
-                    headers: { 'Authorization': 'Bearer ' + token, 'Content-Type': 'application/json', 'Accept': 'application/json' },
-                    body: JSON.stringify({ query, variables })
-                });
-                if (!res.ok) throw new Error(`AniList API Error: ${res.status}`);
-                const json = await res.json();
-                if (json.errors) throw new Error(json.errors.map((e: any) => e.message).join(', '));
+                if (!token) throw new AnilistError('unauthenticated', "Not authenticated with AniList.");
+
+                const isMutation = /^\s*mutation\b/.test(query);
+                let res;
+                try {
+                    res = await requestScheduler.run(() => ctx.fetch("https://graphql.anilist.co", {
+                        method: 'POST',
+                        headers: { 'Authorization': 'Bearer ' + token, 'Content-Type': 'application/json', 'Accept': 'application/json' },
+                        body: JSON.stringify({ query, variables })
+                    }), !isMutation);
+                } catch (e: any) {
+                    throw new AnilistError('network', `Couldn't reach AniList: ${e?.message || e}`);
+                }
+
+                let json: any = null;
+                try {
+                    json = await res.json();
+                } catch (e) {
+                    // Gateway errors come back as HTML; the status code below is all there is to go on.
+                }
+                if (json?.errors?.length && !(options.allowPartial && missingAliases(json))) {
+                    const status = json.errors[0].status ?? (res.ok ? null : res.status);
+                    const message = json.errors.map((e: any) => e.message).join(', ');
+                    throw new AnilistError(classifyAnilistError(status, message), message, status);
+                }
+                if (!res.ok || !json) throw new AnilistError(classifyAnilistError(res.status, ''), `AniList API Error: ${res.status}`, res.status);
                 return json.data;
             },
             fetchViewer: async function() {
@@ -527,19 +1907,93 @@ function init() {
                 const data = await this._fetch(query, {});
                 return data.Viewer;
             },
-            fetchThreadsPage: async function(mediaId: number, sort: string, page: number) {
-                const query = `query ($mediaCategoryId: Int, $sort: [ThreadSort], $page: Int) { Page(page: $page, perPage: 50) { pageInfo { hasNextPage, currentPage }, threads(mediaCategoryId: $mediaCategoryId, sort: $sort) { id, title, body, createdAt, replyCount, siteUrl, repliedAt, viewCount, user { name, avatar { large } }, replyUser { name }, categories { name } } } }`;
-                const data = await this._fetch(query, { mediaCategoryId: mediaId, sort: [sort], page: page });
-                const processedThreads = (data.Page.threads || []).map((thread: any) => {
-                    const isEpisode = thread.categories?.some((c: any) => c.name === "Release Discussion");
-                    const match = thread.title.match(/(?:Episode|Ep\.?)\s*(\d+)/i);
-                    return { ...thread, isEpisode: isEpisode, episodeNumber: match ? parseInt(match[1], 10) : 0 };
-                });
+            _threadFields: `id, title, body, createdAt, replyCount, siteUrl, repliedAt, viewCount, user { name, avatar { large } }, replyUser { name }, categories { id, name }, mediaCategories { id, title { userPreferred } }`,
+            _toThread: function(thread: any): Thread {
+                const isEpisode = thread.categories?.some((c: any) => c.name === "Release Discussion");
+                const episode = classifyEpisodeTitle(thread.title) || undefined;
+                return { ...thread, isEpisode: isEpisode, episode, episodeNumber: episode && !episode.special ? Math.floor(episode.start) : 0 };
+            },
+            // `categoryId` narrows the page to one forum category; without it every thread of the media is returned.
+            fetchThreadsPage: async function(mediaId: number, sort: string, page: number, perPage: number, categoryId: number | null = null) {
+                const query = `query ($mediaCategoryId: Int, $categoryId: Int, $sort: [ThreadSort], $page: Int, $perPage: Int) { Page(page: $page, perPage: $perPage) { pageInfo { hasNextPage, currentPage }, threads(mediaCategoryId: $mediaCategoryId, categoryId: $categoryId, sort: $sort) { ${this._threadFields} } } }`;
+                const data = await this._fetch(query, { mediaCategoryId: mediaId, categoryId, sort: [sort], page, perPage });
+                const processedThreads = (data.Page.threads || []).map((thread: any) => this._toThread(thread));
                 return { threads: processedThreads, pageInfo: data.Page.pageInfo };
             },
-            fetchComments: async function(threadId: number, page: number) {
-                const query = `query ($threadId: Int, $page: Int) { Page(page: $page, perPage: 25) { pageInfo { hasNextPage, currentPage }, threadComments(threadId: $threadId) { id, comment(asHtml: false), createdAt, likeCount, isLiked, user { name, avatar { large } }, childComments } } }`;
-                const data = await this._fetch(query, { threadId, page });
+            // A media and the media of `type` it is directly related to through FRANCHISE_RELATION_TYPES.
+            fetchRelatedMedia: async function(mediaId: number, type: MediaType): Promise<{ media: FranchiseMedia; related: FranchiseMedia[] }> {
+                const mediaFields = `id, type, episodes, title { userPreferred }, startDate { year, month, day }`;
+                const query = `query ($id: Int) { Media(id: $id) { ${mediaFields}, relations { edges { relationType, node { ${mediaFields} } } } } }`;
+                const data = await this._fetch(query, { id: mediaId });
+                const toFranchiseMedia = (m: any): FranchiseMedia => ({ id: m.id, title: m.title.userPreferred, startDate: fuzzyDateValue(m.startDate), episodes: m.episodes ?? null });
+                const related = (data.Media.relations?.edges || [])
+                    .filter((edge: any) => edge.node?.type === type && FRANCHISE_RELATION_TYPES.includes(edge.relationType))
+                    .map((edge: any) => toFranchiseMedia(edge.node));
+                return { media: toFranchiseMedia(data.Media), related };
+            },
+            // Threads from the whole forum rather than one media.
+            fetchForumThreadsPage: async function(forum: ForumQuery, sort: string, page: number, perPage: number) {
+                const query = `query ($categoryId: Int, $search: String, $sort: [ThreadSort], $page: Int, $perPage: Int) { Page(page: $page, perPage: $perPage) { pageInfo { hasNextPage, currentPage }, threads(categoryId: $categoryId, search: $search, sort: $sort) { ${this._threadFields} } } }`;
+                const data = await this._fetch(query, { categoryId: forum.categoryId, search: forum.search || null, sort: [sort], page, perPage });
+                const processedThreads = (data.Page.threads || []).map((thread: any) => this._toThread(thread));
+                return { threads: processedThreads, pageInfo: data.Page.pageInfo };
+            },
+            fetchNotifications: async function(page: number): Promise<{ notifications: ForumNotification[]; hasNextPage: boolean }> {
+                const fields = `id, type, createdAt, commentId, user { name, avatar { large } }, thread { ${this._threadFields} }`;
+                const fragments = ['ThreadCommentReplyNotification', 'ThreadCommentMentionNotification', 'ThreadCommentLikeNotification', 'ThreadCommentSubscribedNotification']
+                    .map(type => `... on ${type} { ${fields} }`).join(' ');
+                // resetNotificationCount stays off so reading here doesn't clear the badge on AniList itself.
+                const query = `query ($page: Int, $types: [NotificationType]) { Page(page: $page, perPage: 25) { pageInfo { hasNextPage }, notifications(type_in: $types, resetNotificationCount: false) { ${fragments} } } }`;
+                const data = await this._fetch(query, { page, types: FORUM_NOTIFICATION_TYPES });
+                const notifications = (data.Page.notifications || [])
+                    .filter((n: any) => n && n.id)
+                    .map((n: any) => ({ ...n, thread: n.thread ? this._toThread(n.thread) : null }));
+                return { notifications, hasNextPage: data.Page.pageInfo.hasNextPage };
+            },
+            // One request for many threads, using an alias per ID. Deleted threads come back as null
+            // rather than failing the whole batch.
+            fetchThreadsById: async function(ids: number[]): Promise<{ [id: number]: Thread | null }> {
+                const fields = ids.map(id => `t${id}: Thread(id: ${id}) { ${this._threadFields} }`).join(' ');
+                const data = await this._fetch(`query { ${fields} }`, {}, { allowPartial: true });
+                const threads: { [id: number]: Thread | null } = {};
+                ids.forEach(id => { threads[id] = data[`t${id}`] ? this._toThread(data[`t${id}`]) : null; });
+                return threads;
+            },
+            // Seanime has no manga counterpart to `ctx.anime.getAnimeEntry`, so the title and list progress come from AniList.
+            fetchMangaEntry: async function(mediaId: number): Promise<{ title: string; progress: number | null }> {
+                const query = `query ($id: Int) { Media(id: $id, type: MANGA) { title { userPreferred }, mediaListEntry { progress } } }`;
+                const data = await this._fetch(query, { id: mediaId });
+                const entry = data.Media.mediaListEntry;
+                return { title: data.Media.title.userPreferred, progress: entry ? (entry.progress || 0) : null };
+            },
+            fetchChapterThreads: async function(mediaId: number) {
+                const chapters: Thread[] = [];
+                for (let page = 1; page <= CHAPTER_SCAN_MAX_PAGES; page++) {
+                    const { threads, pageInfo } = await this.fetchThreadsPage(mediaId, 'ID_DESC', page, 50);
+                    threads.forEach((t: Thread) => {
+                        const chapterRange = parseChapterRange(t.title);
+                        if (chapterRange) chapters.push({ ...t, chapterRange });
+                    });
+                    if (!pageInfo.hasNextPage) break;
+                }
+                return chapters;
+            },
+            // Even long-running shows only have a few hundred episode threads, so all pages are fetched for the episode grid.
+            fetchEpisodeThreads: async function(mediaId: number) {
+                const episodes: Thread[] = [];
+                let page = 1;
+                let hasNext = true;
+                while (hasNext) {
+                    const { threads, pageInfo } = await this.fetchThreadsPage(mediaId, 'ID_DESC', page, 50, RELEASE_DISCUSSION_CATEGORY_ID);
+                    episodes.push(...threads.map((t: Thread) => ({ ...t, isEpisode: true })));
+                    hasNext = pageInfo.hasNextPage;
+                    page++;
+                }
+                return episodes;
+            },
+            fetchComments: async function(threadId: number, page: number, sort: 'ID' | 'ID_DESC') {
+                const query = `query ($threadId: Int, $page: Int, $sort: [ThreadCommentSort]) { Page(page: $page, perPage: 25) { pageInfo { hasNextPage, currentPage }, threadComments(threadId: $threadId, sort: $sort) { id, comment(asHtml: false), createdAt, updatedAt, likeCount, isLiked, user { name, avatar { large } }, childComments } } }`;
+                const data = await this._fetch(query, { threadId, page, sort: [sort] });
                 // --- START of Toggleable Logging Block ---
                 // This block will only run if ENABLE_DEBUG_LOGGING is set to true.
                 if (ENABLE_DEBUG_LOGGING) {
@@ -553,7 +2007,7 @@ function init() {
                     }
                 }
                 // --- END of Toggleable Logging Block ---
-                const parsed = (data.Page.threadComments || []).map((c: any) => ({ ...c, childComments: c.childComments || [] }));
+                const parsed = (data.Page.threadComments || []).map(normalizeComment);
                 return { comments: parsed, pageInfo: data.Page.pageInfo };
             },
             toggleLike: function(commentId: number) {
@@ -561,7 +2015,7 @@ function init() {
                 this._fetch(mutation, { id: commentId, type: "THREAD_COMMENT" }).catch(e => console.error("Like mutation failed:", e));
             },
             saveComment: async function(variables: { threadId: number, comment: string, parentCommentId?: number, id?: number }) {
-                const mutation = `mutation ($id: Int, $threadId: Int, $parentCommentId: Int, $comment: String) { SaveThreadComment(id: $id, threadId: $threadId, parentCommentId: $parentCommentId, comment: $comment) { id, comment, createdAt, likeCount, isLiked, user { name, avatar { large } } } }`;
+                const mutation = `mutation ($id: Int, $threadId: Int, $parentCommentId: Int, $comment: String) { SaveThreadComment(id: $id, threadId: $threadId, parentCommentId: $parentCommentId, comment: $comment) { id, comment, createdAt, updatedAt, likeCount, isLiked, user { name, avatar { large } } } }`;
                 const data = await this._fetch(mutation, variables);
                 return data.SaveThreadComment;
             },
@@ -571,7 +2025,7 @@ function init() {
                 return data.DeleteThreadComment.deleted;
             },
             saveThread: async function(variables: { title: string, body: string, mediaCategories?: number[], categories?: number[], id?: number }) {
-                const mutation = `mutation ($id: Int, $title: String, $body: String, $mediaCategories: [Int], $categories: [Int]) { SaveThread(id: $id, title: $title, body: $body, mediaCategories: $mediaCategories, categories: $categories) { id, title, body, createdAt, replyCount, siteUrl, user { name, avatar { large } } } }`;
+                const mutation = `mutation ($id: Int, $title: String, $body: String, $mediaCategories: [Int], $categories: [Int]) { SaveThread(id: $id, title: $title, body: $body, mediaCategories: $mediaCategories, categories: $categories) { ${this._threadFields} } }`;
                 const data = await this._fetch(mutation, variables);
                 return data.SaveThread;
             },
@@ -582,78 +2036,418 @@ function init() {
             }
         };
 
-        // --- DATA FETCHING & MUTATIONS ---
-        const fetchViewer = async () => {
-            if (currentUser.get()) return;
+        // --- DATA FETCHING & MUTATIONS ---
+        const fetchViewer = async () => {
+            if (currentUser.get()) return;
+            try {
+                const viewer = await anilistApi.fetchViewer();
+                if (viewer) {
+                    currentUser.set(viewer);
+                    commentSort.set(storedCommentSort(viewer.name));
+                }
+            } catch (e: any) { console.error("Failed to fetch viewer info:", e.message); }
+        };
+
+        // --- RESPONSE CACHE ---
+        // Persisted with $storage, one entry per key, plus an index of save times used to evict
+        // the oldest entries. Keys look like "threads.v2:<mediaId>:<sort>" or "comments:<threadId>:<page>".
+        const responseCache = {
+            _index: function(): { [key: string]: number } {
+                return $storage.get(STORAGE_KEYS.cacheIndex) || {};
+            },
+            read: function<T>(key: string): { data: T; savedAt: number } | null {
+                try {
+                    return $storage.get(STORAGE_KEYS.cacheEntryPrefix + key) || null;
+                } catch (e) {
+                    return null;
+                }
+            },
+            write: function(key: string, data: any) {
+                const savedAt = Date.now();
+                try {
+                    $storage.set(STORAGE_KEYS.cacheEntryPrefix + key, { data, savedAt });
+                    const index = { ...this._index(), [key]: savedAt };
+                    const keys = Object.keys(index).sort((a, b) => index[a] - index[b]);
+                    for (const staleKey of keys.slice(0, Math.max(0, keys.length - CACHE_MAX_ENTRIES))) {
+                        $storage.remove(STORAGE_KEYS.cacheEntryPrefix + staleKey);
+                        delete index[staleKey];
+                    }
+                    $storage.set(STORAGE_KEYS.cacheIndex, index);
+                } catch (e) {
+                    console.error("Failed to write response cache:", e);
+                }
+            },
+            invalidate: function(prefix: string) {
+                const index = this._index();
+                for (const key of Object.keys(index)) {
+                    if (!key.startsWith(prefix)) continue;
+                    $storage.remove(STORAGE_KEYS.cacheEntryPrefix + key);
+                    delete index[key];
+                }
+                $storage.set(STORAGE_KEYS.cacheIndex, index);
+            },
+            isFresh: function(entry: { savedAt: number }, ttl: number) {
+                return Date.now() - entry.savedAt < ttl;
+            }
+        };
+
+        // Cached comment pages no longer match the thread after a like, post, edit or delete.
+        const invalidateCommentsCache = (threadId: number) => responseCache.invalidate(`comments:${threadId}:`);
+
+        const applyThreads = (snapshot: ThreadsSnapshot) => {
+            episodeDiscussions.set(snapshot.episodes);
+            generalDiscussions.set(snapshot.general);
+            generalDiscussionsPage.set(snapshot.page);
+            generalDiscussionsHasNextPage.set(snapshot.hasNextPage);
+            franchiseMedia.set(snapshot.franchise || null);
+            franchisePages.set(snapshot.franchisePages || {});
+        };
+
+        // The general list is paged by the server, but episode threads are mixed into those pages and
+        // dropped here, so a page can come back empty. Keep going until something is left to show.
+        // On a manga the threads in `gridThreads` are left to the chapter grid in the same way.
+        const fetchGeneralThreads = async (mediaId: number, sort: string, startPage: number, gridThreads: Thread[]) => {
+            const gridIds = new Set(gridThreads.map(t => t.id));
+            let page = startPage;
+            while (true) {
+                const { threads, pageInfo } = await anilistApi.fetchThreadsPage(mediaId, sort, page, GENERAL_DISCUSSIONS_PER_PAGE);
+                const general = threads.filter((t: Thread) => !t.isEpisode && !gridIds.has(t.id));
+                if (general.length > 0 || !pageInfo.hasNextPage) return { threads: general, page, hasNextPage: pageInfo.hasNextPage };
+                page++;
+            }
+        };
+
+        // --- RELATED SEASONS ---
+        // Walks the relation graph outwards from `mediaId` until FRANCHISE_MAX_MEDIA media of its type are found.
+        // Seasons rarely change, so the result is cached for a day.
+        const loadFranchise = async (mediaId: number, type: MediaType): Promise<FranchiseMedia[]> => {
+            const cacheKey = `franchise:${mediaId}`;
+            const cached = responseCache.read<FranchiseMedia[]>(cacheKey);
+            if (cached && responseCache.isFresh(cached, CACHE_TTL_MS.franchise)) return cached.data;
+
+            const found: { [id: number]: FranchiseMedia } = {};
+            const queue = [mediaId];
+            while (queue.length > 0 && Object.keys(found).length < FRANCHISE_MAX_MEDIA) {
+                const id = queue.shift()!;
+                if (found[id]) continue;
+                const { media, related } = await anilistApi.fetchRelatedMedia(id, type);
+                found[id] = media;
+                related.forEach(r => { if (!found[r.id]) queue.push(r.id); });
+            }
+            const franchise = Object.keys(found).map(id => found[Number(id)]).sort((a, b) => a.startDate - b.startDate);
+            responseCache.write(cacheKey, franchise);
+            return franchise;
+        };
+
+        const labelThreads = (threads: Thread[], media: FranchiseMedia) => threads.map(t => ({ ...t, sourceMedia: { id: media.id, title: media.title } }));
+        const byThreadSort = (sort: string) => (a: Thread, b: Thread) => threadSortValue(b, sort) - threadSortValue(a, sort);
+
+        // The threads behind the episode grid, or the chapter grid on a manga. The episode count lets
+        // absolute episode numbering be recognised.
+        const fetchReleaseThreads = async (mediaId: number, type: MediaType, episodeCount: number | null): Promise<Thread[]> =>
+            type === 'MANGA' ? anilistApi.fetchChapterThreads(mediaId) : classifyEpisodeThreads(await anilistApi.fetchEpisodeThreads(mediaId), episodeCount);
+
+        // One media's grid threads and the first page of its general threads. Episode threads are told
+        // apart by their category, so both lists load at once; the chapter grid only covers the threads
+        // its scan reached, so on a manga the general list waits for it.
+        const fetchMediaThreads = async (mediaId: number, sort: string, type: MediaType, episodeCount: number | null) => {
+            if (type === 'MANGA') {
+                const chapters = await fetchReleaseThreads(mediaId, type, episodeCount);
+                return { episodes: chapters, general: await fetchGeneralThreads(mediaId, sort, 1, chapters) };
+            }
+            const [episodes, general] = await Promise.all([
+                fetchReleaseThreads(mediaId, type, episodeCount),
+                fetchGeneralThreads(mediaId, sort, 1, [])
+            ]);
+            return { episodes, general };
+        };
+
+        // Every season's episode threads and the first page of each season's general threads, merged in sort order.
+        const fetchFranchiseThreads = async (mediaId: number, sort: string, type: MediaType): Promise<ThreadsSnapshot> => {
+            const franchise = await loadFranchise(mediaId, type);
+            const seasons = await Promise.all(franchise.map(async media => {
+                const { episodes, general } = await fetchMediaThreads(media.id, sort, type, media.episodes ?? null);
+                return { media, episodes: labelThreads(episodes, media), general };
+            }));
+            const pages: { [mediaId: number]: { page: number; hasNextPage: boolean } } = {};
+            seasons.forEach(season => { pages[season.media.id] = { page: season.general.page, hasNextPage: season.general.hasNextPage }; });
+            return {
+                episodes: seasons.reduce((all: Thread[], season) => all.concat(season.episodes), []),
+                general: seasons.reduce((all: Thread[], season) => all.concat(labelThreads(season.general.threads, season.media)), []).sort(byThreadSort(sort)),
+                page: 1,
+                hasNextPage: seasons.some(season => season.general.hasNextPage),
+                franchise,
+                franchisePages: pages
+            };
+        };
+
+        // A manga's title and reading progress come from AniList rather than Seanime, so they are cached
+        // like thread lists instead of costing a request every time the tray opens.
+        const loadMangaEntry = async (mediaId: number, force: boolean) => {
+            const cacheKey = `manga-entry:${mediaId}`;
+            const cached = responseCache.read<{ title: string; progress: number | null }>(cacheKey);
+            if (cached && !force && responseCache.isFresh(cached, CACHE_TTL_MS.mangaEntry)) return cached.data;
+            const entry = await anilistApi.fetchMangaEntry(mediaId);
+            responseCache.write(cacheKey, entry);
+            return entry;
+        };
+
+        // The version changes with the shape of ThreadsSnapshot, so entries written in an older shape are never read.
+        const threadsCachePrefix = (mediaId: number) => `threads.v2:${mediaId}:`;
+        const threadsCacheKey = (mediaId: number, sort: string, includeRelated: boolean) => `${threadsCachePrefix(mediaId)}${sort}${includeRelated ? ':franchise' : ''}`;
+
+        // Shows cached threads straight away and only goes to the network when they are missing,
+        // older than their TTL, or `force` is set. With something on screen the request runs in the
+        // background and only `isRefreshing` is raised. Only the first page of general threads is
+        // loaded here; the rest come in through "Load More".
+        const loadThreads = async (mediaId: number, force: boolean = false) => {
+            if (isLoading.get() || isRefreshing.get()) return;
+
+            const sort = threadSort.get();
+            const type = currentMediaType.get();
+            const includeRelated = includeRelatedMedia.get();
+            const cacheKey = threadsCacheKey(mediaId, sort, includeRelated);
+            const cached = responseCache.read<ThreadsSnapshot>(cacheKey);
+
+            error.set(null);
+            if (cached) {
+                applyThreads(cached.data);
+                threadsCachedAt.set(cached.savedAt);
+            } else {
+                episodeDiscussions.set([]);
+                generalDiscussions.set([]);
+                generalDiscussionsPage.set(1);
+                generalDiscussionsHasNextPage.set(false);
+                franchiseMedia.set(null);
+                franchisePages.set({});
+                threadsCachedAt.set(null);
+            }
+
+            const loadingState = cached ? isRefreshing : isLoading;
+            loadingState.set(true);
+
+            try {
+                let episodeCount: number | null = null;
+                if (type === 'MANGA') {
+                    const mangaEntry = await loadMangaEntry(mediaId, force);
+                    currentMediaTitle.set(mangaEntry.title || null);
+                    watchProgress.set(mangaEntry.progress);
+                } else {
+                    const animeEntry = await ctx.anime.getAnimeEntry(mediaId);
+                    currentMediaTitle.set(animeEntry?.media?.title?.userPreferred || null);
+                    watchProgress.set(animeEntry?.listData ? (animeEntry.listData.progress || 0) : null);
+                    episodeCount = animeEntry?.media?.episodes ?? null;
+                }
+
+                if (cached && !force && responseCache.isFresh(cached, CACHE_TTL_MS.threads)) return;
+
+                let snapshot: ThreadsSnapshot;
+                if (includeRelated) {
+                    snapshot = await fetchFranchiseThreads(mediaId, sort, type);
+                } else {
+                    const { episodes, general } = await fetchMediaThreads(mediaId, sort, type, episodeCount);
+                    snapshot = { episodes, general: general.threads, page: general.page, hasNextPage: general.hasNextPage };
+                }
+
+                // The user may have navigated away or changed the sort while this was loading. Loads started
+                // meanwhile were turned away by the guard above, so load what is wanted now instead.
+                if (currentMediaId.get() !== mediaId || threadSort.get() !== sort || includeRelatedMedia.get() !== includeRelated) {
+                    ctx.setTimeout(() => loadThreadList(), 0);
+                    return;
+                }
+
+                applyThreads(snapshot);
+                responseCache.write(cacheKey, snapshot);
+                threadsCachedAt.set(Date.now());
+            } catch (e: any) {
+                if (!cached) error.set(toAnilistError(e));
+                else ctx.toast.warning("Couldn't refresh discussions, showing saved copy.");
+            } finally {
+                loadingState.set(false);
+            }
+        };
+
+        const loadMoreGeneralThreads = async () => {
+            const mediaId = currentMediaId.get();
+            if (!mediaId || isLoadingMoreThreads.get() || !generalDiscussionsHasNextPage.get()) return;
+
+            const sort = threadSort.get();
+            const franchise = franchiseMedia.get();
+            isLoadingMoreThreads.set(true);
             try {
-                const viewer = await anilistApi.fetchViewer();
-                if (viewer) currentUser.set(viewer);
-            } catch (e: any) { console.error("Failed to fetch viewer info:", e.message); }
+                // With related seasons, every season that has more threads contributes its next page.
+                let more: { threads: Thread[]; page: number; hasNextPage: boolean; franchisePages?: ThreadsSnapshot['franchisePages'] };
+                if (franchise) {
+                    const pages = { ...franchisePages.get() };
+                    const results = await Promise.all(franchise.filter(media => pages[media.id]?.hasNextPage).map(async media => {
+                        const result = await fetchGeneralThreads(media.id, sort, pages[media.id].page + 1, episodeDiscussions.get());
+                        pages[media.id] = { page: result.page, hasNextPage: result.hasNextPage };
+                        return labelThreads(result.threads, media);
+                    }));
+                    more = {
+                        threads: results.reduce((all: Thread[], threads) => all.concat(threads), []).sort(byThreadSort(sort)),
+                        page: generalDiscussionsPage.get() + 1,
+                        hasNextPage: franchise.some(media => pages[media.id]?.hasNextPage),
+                        franchisePages: pages
+                    };
+                } else {
+                    more = await fetchGeneralThreads(mediaId, sort, generalDiscussionsPage.get() + 1, episodeDiscussions.get());
+                }
+                if (currentMediaId.get() !== mediaId || threadSort.get() !== sort || franchiseMedia.get() !== franchise) return;
+
+                // Threads can shift between pages when new replies arrive, so skip ones already listed.
+                const loadedIds = new Set(generalDiscussions.get().map(t => t.id));
+                const snapshot: ThreadsSnapshot = {
+                    episodes: episodeDiscussions.get(),
+                    general: [...generalDiscussions.get(), ...more.threads.filter(t => !loadedIds.has(t.id))],
+                    page: more.page,
+                    hasNextPage: more.hasNextPage,
+                    ...(franchise ? { franchise, franchisePages: more.franchisePages } : {})
+                };
+                applyThreads(snapshot);
+                responseCache.write(threadsCacheKey(mediaId, sort, !!franchise), snapshot);
+            } catch (e: any) {
+                reportActionError(e, "load more discussions");
+            } finally {
+                isLoadingMoreThreads.set(false);
+            }
         };
 
-        const fetchAndSeparateAllThreads = async (mediaId: number) => {
-            if (isLoading.get()) return;
-        
-            isLoading.set(true);
+        // --- FORUM BROWSER ---
+        const isForumMode = () => isForumBrowserOpen.get() || !currentMediaId.get();
+        const forumCacheKey = (forum: ForumQuery, sort: string) => `forum:${forum.categoryId ?? 'all'}:${sort}:${forum.search.toLowerCase()}`;
+
+        const applyForumThreads = (snapshot: ForumSnapshot) => {
+            forumThreads.set(snapshot.threads);
+            forumPage.set(snapshot.page);
+            forumHasNextPage.set(snapshot.hasNextPage);
+        };
+
+        // Same caching as `loadThreads`, but a newer query supersedes one still in flight instead of waiting for it.
+        const loadForumThreads = async (force: boolean = false) => {
+            const loadId = ++forumLoadId;
+            const forum = forumQuery.get();
+            const sort = threadSort.get();
+            const cacheKey = forumCacheKey(forum, sort);
+            const cached = responseCache.read<ForumSnapshot>(cacheKey);
+
             error.set(null);
-            episodeDiscussions.set([]);
-            generalDiscussions.set([]);
-            displayedGeneralDiscussions.set([]);
-            generalDiscussionsPage.set(1);
-        
+            isLoading.set(false);
+            isRefreshing.set(false);
+            if (cached) {
+                applyForumThreads(cached.data);
+                forumCachedAt.set(cached.savedAt);
+                if (!force && responseCache.isFresh(cached, CACHE_TTL_MS.threads)) return;
+            } else {
+                forumThreads.set(null);
+                forumPage.set(1);
+                forumHasNextPage.set(false);
+                forumCachedAt.set(null);
+            }
+
+            const loadingState = cached ? isRefreshing : isLoading;
+            loadingState.set(true);
             try {
-                const animeEntry = await ctx.anime.getAnimeEntry(mediaId);
-                currentMediaTitle.set(animeEntry?.media?.title?.userPreferred || null);
-        
-                let allThreads: Thread[] = [];
-                let page = 1;
-                let hasNext = true;
-        
-                while (hasNext) {
-                    const { threads: fetchedThreads, pageInfo } = await anilistApi.fetchThreadsPage(mediaId, threadSort.get(), page);
-                    allThreads.push(...fetchedThreads);
-                    hasNext = pageInfo.hasNextPage;
-                    page++;
-                }
-        
-                const epDiscussions = allThreads.filter(t => t.isEpisode);
-                const genDiscussions = allThreads.filter(t => !t.isEpisode);
-        
-                episodeDiscussions.set(epDiscussions);
-                generalDiscussions.set(genDiscussions);
-        
-                displayedGeneralDiscussions.set(genDiscussions.slice(0, GENERAL_DISCUSSIONS_PER_PAGE));
-                generalDiscussionsHasNextPage.set(genDiscussions.length > GENERAL_DISCUSSIONS_PER_PAGE);
-        
+                const { threads, pageInfo } = await anilistApi.fetchForumThreadsPage(forum, sort, 1, GENERAL_DISCUSSIONS_PER_PAGE);
+                if (loadId !== forumLoadId) return;
+                const snapshot: ForumSnapshot = { threads, page: 1, hasNextPage: pageInfo.hasNextPage };
+                applyForumThreads(snapshot);
+                responseCache.write(cacheKey, snapshot);
+                forumCachedAt.set(Date.now());
             } catch (e: any) {
-                error.set(e.message);
+                if (loadId !== forumLoadId) return;
+                if (!cached) error.set(toAnilistError(e));
+                else ctx.toast.warning("Couldn't refresh the forum, showing saved copy.");
             } finally {
-                isLoading.set(false);
+                if (loadId === forumLoadId) loadingState.set(false);
             }
         };
 
+        const loadMoreForumThreads = async () => {
+            if (isLoadingMoreThreads.get() || !forumHasNextPage.get()) return;
 
-        const fetchComments = async (threadId: number, page: number = 1) => {
-            isLoading.set(true); error.set(null);
-            if (page === 1) comments.set(null);
-
+            const loadId = forumLoadId;
+            const forum = forumQuery.get();
+            const sort = threadSort.get();
+            isLoadingMoreThreads.set(true);
             try {
-                const { comments: newComments, pageInfo } = await anilistApi.fetchComments(threadId, page);
+                const { threads, pageInfo } = await anilistApi.fetchForumThreadsPage(forum, sort, forumPage.get() + 1, GENERAL_DISCUSSIONS_PER_PAGE);
+                if (loadId !== forumLoadId) return;
+
+                const loadedIds = new Set((forumThreads.get() || []).map(t => t.id));
+                const snapshot: ForumSnapshot = {
+                    threads: [...(forumThreads.get() || []), ...threads.filter((t: Thread) => !loadedIds.has(t.id))],
+                    page: forumPage.get() + 1,
+                    hasNextPage: pageInfo.hasNextPage
+                };
+                applyForumThreads(snapshot);
+                responseCache.write(forumCacheKey(forum, sort), snapshot);
+            } catch (e: any) {
+                reportActionError(e, "load more threads");
+            } finally {
+                isLoadingMoreThreads.set(false);
+            }
+        };
 
-                let combinedComments = page > 1 ? [...(comments.get() || []), ...newComments] : newComments;
+        const setForumQuery = (changes: Partial<ForumQuery>) => {
+            forumQuery.set({ ...forumQuery.get(), ...changes });
+            loadForumThreads();
+        };
 
-                const sortOrder = commentSort.get();
-                if (sortOrder === 'ID_DESC') {
-                    combinedComments.sort((a, b) => b.id - a.id);
-                } else {
-                    combinedComments.sort((a, b) => a.id - b.id);
-                }
+        // Loads whichever list the list view is about to show.
+        const loadThreadList = (force: boolean = false) => {
+            if (isForumMode()) loadForumThreads(force);
+            else loadThreads(currentMediaId.get()!, force);
+        };
+
+        const applyCommentsPage = (newComments: ThreadComment[], page: number) => {
+            let combinedComments: ThreadComment[];
+            if (page > 1) {
+                const newIds = new Set(newComments.map(c => c.id));
+                combinedComments = [...(comments.get() || []).filter(c => !newIds.has(c.id)), ...newComments];
+            } else {
+                combinedComments = [...newComments];
+            }
 
-                comments.set(combinedComments);
-                commentsPage.set(pageInfo.currentPage);
-                commentsHasNextPage.set(pageInfo.hasNextPage);
-            } catch (e: any) { error.set(e.message); }
-            finally { isLoading.set(false); }
+            comments.set(sortComments(combinedComments, commentSort.get()));
+        };
+
+        const fetchComments = async (threadId: number, page: number = 1, force: boolean = false) => {
+            const mode = commentSort.get();
+            const serverSort = isServerCommentSort(mode) ? mode : 'ID';
+            const cacheKey = `comments:${threadId}:${serverSort}:${page}`;
+            const cached = responseCache.read<{ comments: ThreadComment[]; pageInfo: { hasNextPage: boolean; currentPage: number } }>(cacheKey);
+
+            error.set(null);
+            if (cached) {
+                applyCommentsPage(cached.data.comments, page);
+                commentsPage.set(cached.data.pageInfo.currentPage);
+                commentsHasNextPage.set(cached.data.pageInfo.hasNextPage);
+                commentsCachedAt.set(cached.savedAt);
+                isLoadingComments.set(false);
+                if (!force && responseCache.isFresh(cached, CACHE_TTL_MS.comments)) return;
+                isRefreshingComments.set(true);
+            } else {
+                isLoadingComments.set(true);
+                if (page === 1) comments.set(null);
+            }
+
+            try {
+                const result = await anilistApi.fetchComments(threadId, page, serverSort);
+                if (selectedThread.get()?.id !== threadId) return;
+
+                applyCommentsPage(result.comments, page);
+                commentsPage.set(result.pageInfo.currentPage);
+                commentsHasNextPage.set(result.pageInfo.hasNextPage);
+                responseCache.write(cacheKey, result);
+                commentsCachedAt.set(Date.now());
+            } catch (e: any) {
+                if (!cached) error.set(toAnilistError(e));
+                else ctx.toast.warning("Couldn't refresh comments, showing saved copy.");
+            } finally {
+                isLoadingComments.set(false);
+                isRefreshingComments.set(false);
+            }
         };
 
         const handleToggleLike = (commentId: number) => {
@@ -670,6 +2464,21 @@ function init() {
             };
             comments.set(updateCommentInTree(comments.get() || []));
             anilistApi.toggleLike(commentId);
+            if (selectedThread.get()) invalidateCommentsCache(selectedThread.get()!.id);
+        };
+
+        // Failed actions keep the current view and explain what went wrong in a toast.
+        const reportActionError = (e: any, action: string) => {
+            const err = toAnilistError(e);
+            const reasons: { [kind in AnilistErrorKind]?: string } = {
+                'unauthenticated': "you're not logged in to AniList",
+                'forbidden': "the thread may be locked, or you don't have permission",
+                'not-found': "it no longer exists on AniList",
+                'rate-limited': "AniList is rate limiting requests, try again shortly",
+                'network': "AniList couldn't be reached",
+                'server': "AniList had a server error, try again shortly",
+            };
+            ctx.toast.alert(`Failed to ${action}: ${reasons[err.kind] || err.message}`);
         };
 
         const handlePostReply = async (text: string, parentCommentId?: number) => {
@@ -679,10 +2488,14 @@ function init() {
             isSubmitting.set(true); error.set(null);
 
             const me = currentUser.get();
-            if (!me) { error.set("Cannot post reply, user data not loaded."); isSubmitting.set(false); return; }
+            if (!me) { ctx.toast.warning("Cannot post reply, user data not loaded."); isSubmitting.set(false); return; }
+
+            const replyDraft: DraftTarget = parentCommentId
+                ? { kind: 'reply', threadId, threadTitle: selectedThread.get()!.title, commentId: parentCommentId, mediaId: currentMediaId.get() ?? undefined, mediaTitle: currentMediaTitle.get() ?? undefined }
+                : { kind: 'comment', threadId, threadTitle: selectedThread.get()!.title, mediaId: currentMediaId.get() ?? undefined, mediaTitle: currentMediaTitle.get() ?? undefined };
 
             const temporaryId = Date.now();
-            const newComment: ThreadComment = { id: temporaryId, comment: text, createdAt: Math.floor(Date.now() / 1000), likeCount: 0, isLiked: false, user: me, childComments: [], isOptimistic: true, };
+            const newComment: ThreadComment = { id: temporaryId, comment: text, createdAt: Math.floor(Date.now() / 1000), updatedAt: Math.floor(Date.now() / 1000), likeCount: 0, isLiked: false, user: me, childComments: [], isOptimistic: true, };
 
             const addReplyToTree = (commentList: ThreadComment[], pId: number): ThreadComment[] => commentList.map(c => c.id === pId ? { ...c, childComments: [...(c.childComments || []), newComment] } : (c.childComments ? { ...c, childComments: addReplyToTree(c.childComments, pId) } : c));
 
@@ -692,10 +2505,14 @@ function init() {
 
             try {
                 const realComment = await anilistApi.saveComment({ threadId, comment: text, parentCommentId });
+                invalidateCommentsCache(threadId);
                 const replaceInTree = (commentList: ThreadComment[]): ThreadComment[] => commentList.map(c => c.id === temporaryId ? { ...realComment, childComments: [] } : (c.childComments ? { ...c, childComments: replaceInTree(c.childComments) } : c));
                 comments.set(replaceInTree(comments.get() || []));
+                deleteDraft(draftKey(replyDraft));
             } catch (e: any) {
-                error.set("Failed to send reply.");
+                reportActionError(e, "send reply");
+                saveDraft(replyDraft, text);
+                ctx.toast.warning("Your text was kept as a draft.");
                 const removeInTree = (commentList: ThreadComment[]): ThreadComment[] => commentList.filter(c => c.id !== temporaryId).map(c => c.childComments ? { ...c, childComments: removeInTree(c.childComments) } : c);
                 comments.set(removeInTree(comments.get() || []));
             } finally {
@@ -713,15 +2530,21 @@ function init() {
             isSubmitting.set(true); error.set(null);
 
             let originalText = "";
-            const findAndUpdateInTree = (list: ThreadComment[]): ThreadComment[] => list.map(c => c.id === commentId ? (originalText = c.comment, { ...c, comment: newText }) : (c.childComments ? { ...c, childComments: findAndUpdateInTree(c.childComments) } : c));
+            let originalUpdatedAt = 0;
+            const editedAt = (c: ThreadComment) => Math.max(Math.floor(Date.now() / 1000), (c.updatedAt || 0) + 1);
+            const findAndUpdateInTree = (list: ThreadComment[]): ThreadComment[] => list.map(c => c.id === commentId ? (originalText = c.comment, originalUpdatedAt = c.updatedAt, { ...c, comment: newText, updatedAt: editedAt(c) }) : (c.childComments ? { ...c, childComments: findAndUpdateInTree(c.childComments) } : c));
             comments.set(findAndUpdateInTree(comments.get() || []));
             editingCommentId.set(null);
 
             try {
                 await anilistApi.saveComment({ id: commentId, threadId, comment: newText });
+                invalidateCommentsCache(threadId);
+                deleteDraft(draftKey({ kind: 'edit', commentId }));
             } catch (e: any) {
-                error.set("Failed to edit comment.");
-                const rollbackInTree = (list: ThreadComment[]): ThreadComment[] => list.map(c => c.id === commentId ? { ...c, comment: originalText } : (c.childComments ? { ...c, childComments: rollbackInTree(c.childComments) } : c));
+                reportActionError(e, "edit comment");
+                saveDraft({ kind: 'edit', threadId, threadTitle: selectedThread.get()?.title, commentId }, newText);
+                ctx.toast.warning("Your edit was kept as a draft.");
+                const rollbackInTree = (list: ThreadComment[]): ThreadComment[] => list.map(c => c.id === commentId ? { ...c, comment: originalText, updatedAt: originalUpdatedAt } : (c.childComments ? { ...c, childComments: rollbackInTree(c.childComments) } : c));
                 comments.set(rollbackInTree(comments.get() || []));
             } finally {
                 isSubmitting.set(false);
@@ -736,78 +2559,618 @@ function init() {
             comments.set(removeCommentFromTree(comments.get() || []));
 
             try {
-                const success = await anilistApi.deleteComment(commentId);
-                if (!success) throw new Error("Deletion failed on server.");
+                const success = await anilistApi.deleteComment(commentId);
+                if (!success) throw new Error("Deletion failed on server.");
+                if (selectedThread.get()) invalidateCommentsCache(selectedThread.get()!.id);
+            } catch (e: any) {
+                reportActionError(e, "delete comment");
+                if (selectedThread.get()) fetchComments(selectedThread.get()!.id, 1, true);
+            } finally {
+                isSubmitting.set(false);
+            }
+        };
+
+        const handleSaveThread = async (id?: number) => {
+            const title = threadTitleInputRef.current;
+            const body = threadBodyInputRef.current;
+            const mediaId = currentMediaId.get();
+            const oldThread = selectedThread.get();
+
+            if (!title || !body || (!id && !mediaId) || isSubmitting.get()) {
+                if (!title) ctx.toast.warning("Title is required.");
+                if (!body) ctx.toast.warning("Body is required.");
+                return;
+            }
+
+            isSubmitting.set(true);
+            error.set(null);
+
+            try {
+                // An edit sends back the thread's own media and categories, wherever it was opened from. A thread
+                // without them (from a cache written before they were fetched) is loaded again first.
+                let tags: { mediaCategories: number[]; categories: number[] };
+                if (id) {
+                    const source = oldThread?.id === id && oldThread.mediaCategories && oldThread.categories?.every(category => category.id) ? oldThread : await loadThreadById(id);
+                    if (!source) return;
+                    tags = { mediaCategories: (source.mediaCategories || []).map(media => media.id), categories: (source.categories || []).map(category => category.id) };
+                    // A thread listed under an earlier season must stay with that season.
+                    if (oldThread?.sourceMedia && !tags.mediaCategories.includes(oldThread.sourceMedia.id)) {
+                        ctx.toast.error(`Couldn't confirm this discussion still belongs to ${oldThread.sourceMedia.title}, so it wasn't saved.`);
+                        return;
+                    }
+                } else {
+                    tags = { mediaCategories: [mediaId!], categories: [isManga() ? 2 : 1] };
+                }
+                const savedThread = await anilistApi.saveThread({ id, title, body, ...tags });
+                ctx.toast.success(`Discussion ${id ? 'updated' : 'created'} successfully!`);
+                deleteDraft(draftKey(id ? { kind: 'thread-edit', threadId: id } : { kind: 'thread', mediaId: mediaId! }));
+                
+                const episode = isManga() ? null : classifyEpisodeTitle(title);
+                const chapterRange = isManga() ? parseChapterRange(title) : null;
+                const newThreadData: Thread = {
+                    ...(oldThread || {}),
+                    ...savedThread,
+                    user: oldThread?.user || currentUser.get()!,
+                    body,
+                    title,
+                    replyCount: oldThread?.replyCount || 0,
+                    repliedAt: oldThread?.repliedAt || savedThread.createdAt,
+                    replyUser: oldThread?.replyUser || null,
+                    viewCount: oldThread?.viewCount || 0,
+                    isEpisode: !!episode && !episode.special,
+                    episode: episode || undefined,
+                    episodeNumber: episode && !episode.special ? Math.floor(episode.start) : 0,
+                    chapterRange: chapterRange || undefined,
+                };
+
+                selectedThread.set(newThreadData);
+                view.set('thread');
+                if (id) responseCache.invalidate('forum:');
+                if (oldThread?.sourceMedia) responseCache.invalidate(threadsCachePrefix(oldThread.sourceMedia.id));
+                if (mediaId) {
+                    responseCache.invalidate(threadsCachePrefix(mediaId));
+                    loadThreads(mediaId, true);
+                }
+            } catch (e: any) {
+                reportActionError(e, `${id ? 'update' : 'create'} discussion`);
+            } finally {
+                isSubmitting.set(false);
+            }
+        };
+
+        const handleDeleteThread = async (threadId: number) => {
+            if (isSubmitting.get()) return;
+            isSubmitting.set(true);
+            error.set(null);
+
+            try {
+                await anilistApi.deleteThread(threadId);
+                ctx.toast.success("Discussion deleted.");
+                view.set('list');
+                responseCache.invalidate(isForumMode() ? 'forum:' : threadsCachePrefix(currentMediaId.get()!));
+                loadThreadList(true);
+            } catch (e: any) {
+                reportActionError(e, "delete discussion");
+            } finally {
+                isSubmitting.set(false);
+            }
+        };
+
+
+        // --- SPOILER SAFETY ---
+        // A thread is ahead of the user when it is about an episode they haven't watched yet, or on a
+        // manga a chapter they haven't read. Without list progress (the media isn't on their list)
+        // nothing is treated as ahead.
+        const isManga = () => currentMediaType.get() === 'MANGA';
+        const progressUnit = () => isManga() ? 'chapter' : 'episode';
+        const spoilerProgressOf = (thread: Thread) => {
+            if (!isManga()) {
+                if (!thread.isEpisode) return highestMentionedEpisode(thread.title);
+                // Specials sit outside the numbering, so they never count as ahead.
+                return thread.episode ? (thread.episode.special ? 0 : thread.episode.end) : thread.episodeNumber;
+            }
+            // Volumes can't be compared with chapter progress, so only chapter ranges count.
+            const range = thread.chapterRange || parseChapterRange(thread.title);
+            return range?.kind === 'chapter' ? range.end : 0;
+        };
+        const isAheadOfProgress = (thread: Thread) => {
+            // Only this media's progress is known, so a thread is checked only when it's known to be about this media.
+            // Threads opened from the forum browser, a notification or a link can be about any media.
+            const mediaIds = thread.sourceMedia ? [thread.sourceMedia.id] : thread.mediaCategories?.map(media => media.id);
+            if (!mediaIds || !mediaIds.some(id => id === currentMediaId.get())) return false;
+            const progress = watchProgress.get();
+            return spoilerSafety.get() && progress !== null && spoilerProgressOf(thread) > progress;
+        };
+
+        // --- UNREAD TRACKING ---
+        const recordThreadVisit = (thread: Thread) => {
+            const loaded = comments.get() || [];
+            const visits = { ...threadVisits.get() };
+            const previous = visits[thread.id];
+            visits[thread.id] = {
+                lastSeenCommentId: Math.max(previous?.lastSeenCommentId || 0, maxCommentId(loaded)),
+                replyCount: Math.max(previous?.replyCount || 0, thread.replyCount, countMatchingComments(loaded, () => true)),
+                seenAt: Date.now()
+            };
+            const ids = Object.keys(visits).sort((a, b) => visits[+a].seenAt - visits[+b].seenAt);
+            ids.slice(0, Math.max(0, ids.length - THREAD_VISITS_MAX)).forEach(id => delete visits[+id]);
+            threadVisits.set(visits);
+            $storage.set(STORAGE_KEYS.threadVisits, visits);
+        };
+
+        // Only threads opened before can have unread replies; the rest have never been read at all.
+        const unreadCount = (thread: Thread) => {
+            const visit = threadVisits.get()[thread.id];
+            return visit ? Math.max(0, thread.replyCount - visit.replyCount) : 0;
+        };
+
+        // --- DRAFTS ---
+        const persistDrafts = (next: { [key: string]: Draft }) => {
+            const keys = Object.keys(next).sort((a, b) => next[a].updatedAt - next[b].updatedAt);
+            keys.slice(0, Math.max(0, keys.length - DRAFTS_MAX)).forEach(key => delete next[key]);
+            drafts.set(next);
+            $storage.set(STORAGE_KEYS.drafts, next);
+        };
+
+        const deleteDraft = (key: string) => {
+            if (!drafts.get()[key]) return;
+            const next = { ...drafts.get() };
+            delete next[key];
+            persistDrafts(next);
+        };
+
+        const saveDraft = (target: DraftTarget, body: string, title?: string) => {
+            persistDrafts({ ...drafts.get(), [draftKey(target)]: { ...target, body, title, updatedAt: Date.now() } });
+        };
+
+        // The composer currently on screen, with what it holds and, for edits, what it started from.
+        const activeComposer = (): { target: DraftTarget; body: string; title?: string; original?: { body: string; title?: string } } | null => {
+            const thread = selectedThread.get();
+            const media = { mediaId: currentMediaId.get() ?? undefined, mediaTitle: currentMediaTitle.get() ?? undefined, mediaType: currentMediaType.get() };
+            if (view.get() === 'create' && currentMediaId.get()) {
+                return { target: { kind: 'thread', ...media }, body: threadBodyInputRef.current || '', title: threadTitleInputRef.current || '' };
+            }
+            if (!thread) return null;
+            const threadInfo = { threadId: thread.id, threadTitle: thread.title, ...media };
+            if (view.get() === 'edit-thread') {
+                return { target: { kind: 'thread-edit', ...threadInfo }, body: threadBodyInputRef.current || '', title: threadTitleInputRef.current || '', original: { body: thread.body.replace(/<br>/g, '\n'), title: thread.title } };
+            }
+            if (view.get() !== 'thread') return null;
+            if (editingCommentId.get() !== null) {
+                const comment = findCommentInTree(comments.get() || [], editingCommentId.get()!);
+                return { target: { kind: 'edit', ...threadInfo, commentId: editingCommentId.get()! }, body: editInputRef.current || '', original: comment ? { body: comment.comment.replace(/<br>/g, '\n') } : undefined };
+            }
+            if (replyingToCommentId.get() !== null) return { target: { kind: 'reply', ...threadInfo, commentId: replyingToCommentId.get()! }, body: replyInputRef.current || '' };
+            if (isReplyingToThread.get()) return { target: { kind: 'comment', ...threadInfo }, body: replyInputRef.current || '' };
+            return null;
+        };
+
+        // Empty composers and untouched edits leave no draft behind.
+        const saveActiveDraft = () => {
+            const composer = activeComposer();
+            if (!composer) return;
+            const key = draftKey(composer.target);
+            const isEmpty = !composer.body.trim() && !(composer.title || '').trim();
+            const isUnchanged = composer.original && composer.original.body === composer.body && (composer.original.title ?? composer.title) === composer.title;
+            // An unanswered restore prompt means the old draft hasn't been looked at yet; leave it alone.
+            if ((isEmpty || isUnchanged) && drafts.get()[key] && !dismissedDraftPrompts.get()[key]) return;
+            if (isEmpty || isUnchanged) deleteDraft(key);
+            else saveDraft(composer.target, composer.body, composer.title);
+            // What's being typed right now shouldn't be offered back as something to restore.
+            if (!dismissedDraftPrompts.get()[key]) dismissedDraftPrompts.set(d => ({ ...d, [key]: true }));
+        };
+
+        let draftSaveQueued = false;
+        const scheduleDraftSave = () => {
+            if (draftSaveQueued) return;
+            draftSaveQueued = true;
+            ctx.setTimeout(() => {
+                draftSaveQueued = false;
+                saveActiveDraft();
+            }, DRAFT_SAVE_DELAY_MS);
+        };
+
+        // Keeps what the previous composer held before another one takes its place.
+        const beforeComposerOpens = () => {
+            saveActiveDraft();
+            dismissedDraftPrompts.set({});
+        };
+
+        const restoreDraft = (key: string) => {
+            const draft = drafts.get()[key];
+            if (!draft) return;
+            if (draft.kind === 'thread' || draft.kind === 'thread-edit') {
+                threadTitleInputRef.setValue(draft.title || '');
+                threadBodyInputRef.setValue(draft.body);
+            } else if (draft.kind === 'edit') {
+                editInputRef.setValue(draft.body);
+            } else {
+                replyInputRef.setValue(draft.body);
+            }
+            composerRevision.set(r => r + 1);
+            dismissedDraftPrompts.set(d => ({ ...d, [key]: true }));
+        };
+
+        const loadThreadById = async (threadId: number): Promise<Thread | null> => {
+            const thread = (await anilistApi.fetchThreadsById([threadId]))[threadId];
+            if (!thread) ctx.toast.warning("That thread no longer exists.");
+            return thread;
+        };
+
+        // Takes the user to wherever a draft was written and puts it back in its composer.
+        const openDraft = async (key: string) => {
+            const draft = drafts.get()[key];
+            if (!draft) return;
+            beforeComposerOpens();
+
+            if (draft.kind === 'thread') {
+                if (draft.mediaId !== currentMediaId.get()) {
+                    pendingDraftKey.set(key);
+                    ctx.screen.navigateTo(draft.mediaType === 'MANGA' ? "/manga/entry" : "/entry", { id: String(draft.mediaId) });
+                    return;
+                }
+                view.set('create');
+                restoreDraft(key);
+                return;
+            }
+
+            try {
+                const thread = await loadThreadById(draft.threadId!);
+                if (!thread) return;
+                if (draft.kind === 'thread-edit') {
+                    openThread(thread);
+                    view.set('edit-thread');
+                } else if (draft.kind === 'comment') {
+                    openThread(thread);
+                    isReplyingToThread.set(true);
+                } else {
+                    openThreadAtComment(thread, draft.commentId!);
+                    if (draft.kind === 'reply') replyingToCommentId.set(draft.commentId!);
+                    else editingCommentId.set(draft.commentId!);
+                }
+                restoreDraft(key);
+            } catch (e: any) {
+                reportActionError(e, "open the draft's thread");
+            }
+        };
+
+        // --- FOLLOWED THREADS ---
+        const saveFollowedThreads = (followed: { [threadId: number]: FollowedThread }) => {
+            followedThreads.set(followed);
+            $storage.set(STORAGE_KEYS.followedThreads, followed);
+        };
+
+        const toggleFollowThread = (thread: Thread) => {
+            const followed = { ...followedThreads.get() };
+            if (followed[thread.id]) {
+                delete followed[thread.id];
+                ctx.toast.success(`Stopped following "${thread.title}".`);
+            } else {
+                followed[thread.id] = { title: thread.title, replyCount: thread.replyCount, repliedAt: thread.repliedAt || 0 };
+                ctx.toast.success(`Following "${thread.title}". You'll get a notification when it gets replies.`);
+            }
+            saveFollowedThreads(followed);
+        };
+
+        // Replies read in the thread view shouldn't be announced by the next poll.
+        const syncFollowedThread = (thread: Thread) => {
+            const entry = followedThreads.get()[thread.id];
+            if (!entry) return;
+            const loadedCount = countMatchingComments(comments.get() || [], () => true);
+            saveFollowedThreads({ ...followedThreads.get(), [thread.id]: { ...entry, replyCount: Math.max(entry.replyCount, thread.replyCount, loadedCount) } });
+        };
+
+        const pollFollowedThreads = async () => {
+            const ids = Object.keys(followedThreads.get()).map(Number);
+            if (ids.length === 0 || !$database.anilist.getToken() || !requestScheduler.hasSpareBudget()) return;
+            await fetchViewer();
+
+            const withReplies: { thread: Thread; newReplies: number }[] = [];
+            for (let i = 0; i < ids.length; i += FOLLOW_POLL_BATCH_SIZE) {
+                const latest = await anilistApi.fetchThreadsById(ids.slice(i, i + FOLLOW_POLL_BATCH_SIZE));
+                const followed = { ...followedThreads.get() };
+                for (const id of Object.keys(latest).map(Number)) {
+                    const thread = latest[id];
+                    const entry = followed[id];
+                    if (!entry) continue;
+                    if (!thread) {
+                        delete followed[id];
+                        ctx.toast.warning(`"${entry.title}" was removed and is no longer followed.`);
+                        continue;
+                    }
+                    const newReplies = thread.replyCount - entry.replyCount;
+                    const byOthers = thread.replyUser?.name !== currentUser.get()?.name;
+                    if (newReplies > 0 && thread.repliedAt > entry.repliedAt && byOthers && selectedThread.get()?.id !== id) {
+                        withReplies.push({ thread, newReplies });
+                    }
+                    followed[id] = { title: thread.title, replyCount: thread.replyCount, repliedAt: thread.repliedAt || 0 };
+                }
+                saveFollowedThreads(followed);
+                if (!requestScheduler.hasSpareBudget()) break;
+            }
+
+            // The tray can only open one thread, so it's the most recently replied one and the toast says so.
+            if (withReplies.length === 0) return;
+            const { thread, newReplies } = withReplies.reduce((latest, next) => next.thread.repliedAt > latest.thread.repliedAt ? next : latest);
+            pendingThread.set(thread);
+            if (withReplies.length === 1) {
+                ctx.toast.info(`${newReplies} new ${newReplies === 1 ? 'reply' : 'replies'} in "${thread.title}"${thread.replyUser ? ` (latest by ${thread.replyUser.name})` : ''}. Open the Discussions tray to read it.`);
+            } else {
+                const titles = withReplies.map(entry => `"${entry.thread.title}"`).join(', ');
+                ctx.toast.info(`New replies in ${withReplies.length} followed discussions: ${titles}. Opening the Discussions tray shows only the most recent, "${thread.title}".`);
+            }
+        };
+
+        // --- PLAYBACK ---
+        // Both the player and the progress hook report a finished episode, so each one is offered once.
+        let lastOfferedEpisode = '';
+        // Completion events don't say what was playing; the status events before them do.
+        let lastPlaybackState: { mediaId: number; episodeNumber: number } | null = null;
+
+        // A new thread starts as a titled draft. On the anime's own page the composer opens straight away;
+        // anywhere else (usually the player) the draft waits in the drafts view, since opening it would
+        // navigate to the anime, and a toast says which draft it is.
+        const startEpisodeThread = (target: { mediaId: number; mediaTitle: string; episode: number }) => {
+            const key = draftKey({ kind: 'thread', mediaId: target.mediaId });
+            if (!drafts.get()[key]) {
+                saveDraft({ kind: 'thread', mediaId: target.mediaId, mediaTitle: target.mediaTitle, mediaType: 'ANIME' }, '', `${target.mediaTitle} Episode ${target.episode} Discussion`);
+            }
+            if (currentMediaId.get() === target.mediaId && currentMediaType.get() === 'ANIME') {
+                openDraft(key);
+            } else {
+                saveActiveDraft();
+                error.set(null);
+                view.set('drafts');
+                ctx.toast.info(`Your draft "${drafts.get()[key]?.title || target.mediaTitle}" is waiting in Drafts. Open it there to finish the thread on ${target.mediaTitle}'s page.`);
+            }
+        };
+
+        const offerEpisodeThread = async (mediaId: number, episode: number) => {
+            const action = episodeFinishedAction.get();
+            const offerKey = `${mediaId}:${episode}`;
+            if (action === 'off' || !mediaId || !episode || offerKey === lastOfferedEpisode) return;
+            lastOfferedEpisode = offerKey;
+
+            try {
+                // Progress updates also come from manga, which have no anime entry to offer.
+                const animeEntry = await ctx.anime.getAnimeEntry(mediaId);
+                if (animeEntry?.media?.type !== 'ANIME') return;
+                const mediaTitle = animeEntry.media.title?.userPreferred || "this anime";
+                const isCurrent = currentMediaId.get() === mediaId && currentMediaType.get() === 'ANIME';
+                if (isCurrent) watchProgress.set(Math.max(watchProgress.get() || 0, episode));
+
+                // The loaded grid is used when it's for this anime; with related seasons it also holds other seasons.
+                const loaded = isCurrent ? episodeDiscussions.get().filter(t => !t.sourceMedia || t.sourceMedia.id === mediaId) : [];
+                const threads = loaded.length > 0 ? loaded : classifyEpisodeThreads(await anilistApi.fetchEpisodeThreads(mediaId), animeEntry?.media?.episodes ?? null);
+                const found = findEpisodeThread(threads, episode);
+                const thread = found && !isCurrent ? { ...found, sourceMedia: { id: mediaId, title: mediaTitle } } : found;
+
+                if (thread) {
+                    pendingEpisodeThread.set(null);
+                    if (action === 'open') {
+                        openThread(thread);
+                        tray.open();
+                    } else {
+                        pendingThread.set(thread);
+                        ctx.toast.info(`Finished episode ${episode} of ${mediaTitle}? Open the Discussions tray to join its discussion.`);
+                    }
+                } else {
+                    const target = { mediaId, mediaTitle, episode };
+                    pendingThread.set(null);
+                    if (action === 'open') {
+                        startEpisodeThread(target);
+                        tray.open();
+                    } else {
+                        pendingEpisodeThread.set(target);
+                        ctx.toast.info(`There's no discussion for episode ${episode} of ${mediaTitle} yet. Open the Discussions tray to start one.`);
+                    }
+                }
+            } catch (e: any) {
+                console.error("Failed to find the finished episode's thread:", e?.message || e);
+            }
+        };
+
+        // --- NOTIFICATIONS ---
+        const updateUnreadNotifications = (list: ForumNotification[]) => {
+            const unread = list.filter(n => n.createdAt > notificationsSeenAt.get()).length;
+            unreadNotificationCount.set(unread);
+            tray.updateBadge({ number: unread });
+        };
+
+        const fetchNotifications = async (page: number = 1) => {
+            if (isLoadingNotifications.get()) return;
+            isLoadingNotifications.set(true);
+            try {
+                const result = await anilistApi.fetchNotifications(page);
+                const list = page > 1 ? [...(notifications.get() || []), ...result.notifications] : result.notifications;
+                notifications.set(list);
+                notificationsPage.set(page);
+                notificationsHasNextPage.set(result.hasNextPage);
+                if (page === 1) updateUnreadNotifications(list);
+            } catch (e: any) {
+                if (!notifications.get()) error.set(toAnilistError(e));
+                else reportActionError(e, "load notifications");
+            } finally {
+                isLoadingNotifications.set(false);
+            }
+        };
+
+        const markNotificationsSeen = () => {
+            const newest = (notifications.get() || []).reduce((latest, n) => Math.max(latest, n.createdAt), notificationsSeenAt.get());
+            notificationsSeenAt.set(newest);
+            $storage.set(STORAGE_KEYS.notificationsSeenAt, newest);
+            updateUnreadNotifications(notifications.get() || []);
+        };
+
+        const openNotifications = async () => {
+            previousNotificationsSeenAt.set(notificationsSeenAt.get());
+            error.set(null);
+            view.set('notifications');
+            await fetchNotifications(1);
+            markNotificationsSeen();
+        };
+
+        const pollNotifications = async () => {
+            if (!$database.anilist.getToken() || !requestScheduler.hasSpareBudget() || view.get() === 'notifications') return;
+            const result = await anilistApi.fetchNotifications(1);
+            notifications.set(result.notifications);
+            notificationsPage.set(1);
+            notificationsHasNextPage.set(result.hasNextPage);
+            updateUnreadNotifications(result.notifications);
+        };
+
+        // Opens `thread` wherever it lives and brings `commentId` into view once its comments load.
+        const openThreadAtComment = (thread: Thread, commentId: number) => {
+            pendingCommentTarget.set({ threadId: thread.id, commentId });
+            openThread(thread);
+        };
+
+        // The tray can't scroll to a comment, so the branch holding it is opened on its own instead.
+        // Pages are loaded until the comment turns up or the thread runs out.
+        const revealPendingComment = async (threadId: number) => {
+            const target = pendingCommentTarget.get();
+            if (!target || target.threadId !== threadId) return;
+            pendingCommentTarget.set(null);
+
+            let path = findCommentPath(comments.get() || [], target.commentId);
+            while (!path && commentsHasNextPage.get() && selectedThread.get()?.id === threadId && !error.get()) {
+                await fetchComments(threadId, commentsPage.get() + 1);
+                path = findCommentPath(comments.get() || [], target.commentId);
+            }
+            if (selectedThread.get()?.id !== threadId) return;
+            if (!path) {
+                ctx.toast.warning("That comment couldn't be found. It may have been deleted.");
+                return;
+            }
+
+            const focusIndex = Math.max(0, path.length - REPLY_NESTING_DEPTH);
+            const expanded = { ...expandedBranches.get() };
+            path.slice(focusIndex, -1).forEach(c => { expanded[c.id] = true; });
+            expandedBranches.set(expanded);
+            highlightedCommentId.set(target.commentId);
+            focusedCommentId.set(path[focusIndex].id);
+        };
+
+        // Opens an AniList forum link inside the tray, at the linked comment when there is one.
+        const openForumLink = async (link: { threadId: number; commentId: number | null }) => {
+            const current = selectedThread.get();
+            if (current?.id === link.threadId && view.get() === 'thread') {
+                if (link.commentId === null) return;
+                pendingCommentTarget.set({ threadId: link.threadId, commentId: link.commentId });
+                revealPendingComment(link.threadId);
+                return;
+            }
+            try {
+                const thread = await loadThreadById(link.threadId);
+                if (!thread) return;
+                if (link.commentId !== null) openThreadAtComment(thread, link.commentId);
+                else openThread(thread);
             } catch (e: any) {
-                error.set("Failed to delete comment. Please refresh.");
-            } finally {
-                isSubmitting.set(false);
+                reportActionError(e, "open the linked thread");
             }
         };
 
-        const handleSaveThread = async (id?: number) => {
-            const title = threadTitleInputRef.current;
-            const body = threadBodyInputRef.current;
-            const mediaId = currentMediaId.get();
-            const oldThread = selectedThread.get();
+        // Seanime plugins can't write to the clipboard, so the link is shown in a field ready to copy.
+        const shareCommentLink = (commentId: number) => {
+            const thread = selectedThread.get();
+            if (!thread) return;
+            const url = forumCommentUrl(thread.id, commentId);
+            sharedLinkInputRef.setValue(url);
+            sharedCommentLink.set(url);
+        };
 
-            if (!title || !body || !mediaId || isSubmitting.get()) {
-                if (!title) ctx.toast.warning("Title is required.");
-                if (!body) ctx.toast.warning("Body is required.");
-                return;
-            }
+        // Polls on a timer chain rather than an interval so a slow round never overlaps the next one.
+        const scheduleBackgroundPoll = () => {
+            ctx.setTimeout(() => {
+                pollFollowedThreads()
+                    .catch((e: any) => console.error("Failed to poll followed threads:", e?.message || e))
+                    .then(() => pollNotifications())
+                    .catch((e: any) => console.error("Failed to poll notifications:", e?.message || e))
+                    .finally(() => scheduleBackgroundPoll());
+            }, BACKGROUND_POLL_INTERVAL_MS);
+        };
 
-            isSubmitting.set(true);
-            error.set(null);
+        // --- COMMENT FILTER ---
+        const resetCommentFilter = () => {
+            commentFilter.set(EMPTY_COMMENT_FILTER);
+            commentSearchInputRef.setValue("");
+            commentAuthorInputRef.setValue("");
+        };
 
+        // Search only covers loaded pages, so this pulls in the rest of the thread first.
+        const loadAllComments = async () => {
+            const thread = selectedThread.get();
+            if (!thread || isLoadingAllComments.get()) return;
+            isLoadingAllComments.set(true);
             try {
-                const savedThread = await anilistApi.saveThread({ id, title, body, mediaCategories: [mediaId], categories: [1] });
-                ctx.toast.success(`Discussion ${id ? 'updated' : 'created'} successfully!`);
-                
-                const episodeMatch = title.match(/(?:Episode|Ep\.?)\s*(\d+)/i);
-                const newThreadData: Thread = {
-                    ...(oldThread || {}),
-                    ...savedThread,
-                    user: oldThread?.user || currentUser.get()!,
-                    body,
-                    title,
-                    replyCount: oldThread?.replyCount || 0,
-                    repliedAt: oldThread?.repliedAt || savedThread.createdAt,
-                    replyUser: oldThread?.replyUser || null,
-                    viewCount: oldThread?.viewCount || 0,
-                    isEpisode: !!episodeMatch,
-                    episodeNumber: episodeMatch ? parseInt(episodeMatch[1], 10) : 0,
-                };
-
-                selectedThread.set(newThreadData);
-                view.set('thread');
-                fetchAndSeparateAllThreads(mediaId);
-            } catch (e: any) {
-                error.set(`Failed to ${id ? 'update' : 'create'} discussion: ` + e.message);
-                ctx.toast.alert(`Failed to ${id ? 'update' : 'create'} discussion.`);
+                while (commentsHasNextPage.get() && selectedThread.get()?.id === thread.id && !error.get()) {
+                    await fetchComments(thread.id, commentsPage.get() + 1);
+                }
             } finally {
-                isSubmitting.set(false);
+                isLoadingAllComments.set(false);
             }
         };
 
-        const handleDeleteThread = async (threadId: number) => {
-            if (isSubmitting.get()) return;
-            isSubmitting.set(true);
-            error.set(null);
+        // Reparsing every body on each render adds up while a filter is active, so a comment's segments are kept
+        // until its `updatedAt` changes, which edits made here do too.
+        let parsedComments: { [commentId: number]: { updatedAt: number; segments: CommentSegment[] } } = {};
+        const commentSegments = (comment: ThreadComment): CommentSegment[] => {
+            const cached = parsedComments[comment.id];
+            if (cached && cached.updatedAt === comment.updatedAt) return cached.segments;
+            const segments = parseComment(comment.comment);
+            parsedComments[comment.id] = { updatedAt: comment.updatedAt, segments };
+            return segments;
+        };
 
-            try {
-                await anilistApi.deleteThread(threadId);
-                ctx.toast.success("Discussion deleted.");
-                view.set('list');
-                fetchAndSeparateAllThreads(currentMediaId.get()!);
-            } catch (e: any) {
-                error.set("Failed to delete discussion: " + e.message);
-                ctx.toast.alert("Failed to delete discussion.");
-            } finally {
-                isSubmitting.set(false);
+        const openThread = (thread: Thread) => {
+            parsedComments = {};
+            comments.set(null);
+            isLoadingComments.set(true);
+            revealedSpoilers.set({});
+            expandedBranches.set({});
+            focusedCommentId.set(null);
+            highlightedCommentId.set(null);
+            resetCommentFilter();
+            previousVisit.set(threadVisits.get()[thread.id] || null);
+            spoilerShieldActive.set(isAheadOfProgress(thread));
+            selectedThread.set(thread);
+            view.set('thread');
+        };
+
+        const selectThread = (thread: Thread) => {
+            if ((thread.isEpisode || thread.chapterRange) && isAheadOfProgress(thread)) {
+                actionConfirmation.set({
+                    message: thread.chapterRange
+                        ? `You've read up to chapter ${watchProgress.get()}. Open the chapter ${formatChapterRange(thread.chapterRange)} discussion anyway?`
+                        : `You've watched up to episode ${watchProgress.get()}. Open the episode ${thread.episode ? formatEpisodeLabel(thread.episode) : thread.episodeNumber} discussion anyway?`,
+                    onConfirm: () => openThread(thread)
+                });
+                return;
             }
+            openThread(thread);
+        };
+
+        // --- IMAGE VIEWER ---
+        // `source` is the owner part of the segment key: a comment ID, or "op" for the thread body.
+        const openImageViewer = (url: string, key: string) => {
+            imageToView.set({ url, source: key.split('-')[0], scope: 'comment', zoom: 1 });
         };
 
+        const getViewerImages = (viewer: { url: string; source: string; scope: 'comment' | 'thread' }): string[] => {
+            const bodies: { source: string; text: string }[] = [];
+            const thread = selectedThread.get();
+            if (thread) bodies.push({ source: 'op', text: thread.body });
+            const addComments = (list: ThreadComment[]) => list.forEach(c => {
+                bodies.push({ source: `${c.id}`, text: c.comment });
+                if (c.childComments) addComments(c.childComments);
+            });
+            addComments(comments.get() || []);
+
+            const inScope = viewer.scope === 'thread' ? bodies : bodies.filter(b => b.source === viewer.source);
+            const images: string[] = [];
+            inScope.forEach(b => images.push(...collectImageUrls(parseComment(b.text))));
+            return images.includes(viewer.url) ? images : [viewer.url];
+        };
 
         // --- TRAY SETUP & EVENT HANDLING ---
         const tray = ctx.newTray({
@@ -818,94 +3181,278 @@ function init() {
             height: '90vh'
         });
 
+        // The list loads first so a pending thread or draft opened below isn't undone by it.
         tray.onOpen(() => {
             fetchViewer();
-            const mediaId = currentMediaId.get();
-            if (mediaId) {
-                fetchAndSeparateAllThreads(mediaId);
+            loadThreadList();
+            const pending = pendingThread.get();
+            if (pending) {
+                pendingThread.set(null);
+                openThread(pending);
+            }
+            const pendingEpisode = pendingEpisodeThread.get();
+            if (pendingEpisode) {
+                pendingEpisodeThread.set(null);
+                startEpisodeThread(pendingEpisode);
             }
         });
 
         tray.onClose(() => {
+            saveActiveDraft();
             linkConfirmation.set(null);
+            sharedCommentLink.set(null);
+            releaseThreadPicker.set(null);
             imageToView.set(null);
             actionConfirmation.set(null);
         });
 
         ctx.effect(() => { 
-            const mediaId = currentMediaId.get();
-            if (mediaId) {
-                fetchAndSeparateAllThreads(mediaId);
-            }
+            loadThreadList();
         }, [threadSort]);
 
-        ctx.effect(() => { if (selectedThread.get()) fetchComments(selectedThread.get()!.id, 1); }, [selectedThread, commentSort]);
+        // Sorts AniList can't do need the whole thread, so the remaining pages are pulled in after the first.
+        ctx.effect(() => {
+            const thread = selectedThread.get();
+            if (!thread) return;
+            fetchComments(thread.id, 1).then(() => {
+                if (selectedThread.get()?.id !== thread.id) return;
+                recordThreadVisit(thread);
+                syncFollowedThread(thread);
+                if (pendingCommentTarget.get()?.threadId === thread.id) revealPendingComment(thread.id);
+                else if (!isServerCommentSort(commentSort.get())) loadAllComments();
+            });
+        }, [selectedThread, commentSort]);
 
+        // Selection events fire as the user types, which makes them the autosave trigger too.
         ctx.registerEventHandler('inputSelectionChange', (e: { cursorStart: number, cursorEnd: number, selectedText: string }) => {
             selectionState.set({ start: e.cursorStart, end: e.cursorEnd, text: e.selectedText });
+            scheduleDraftSave();
         });
+        ctx.registerEventHandler('draftInputChange', () => scheduleDraftSave());
 
         ctx.registerEventHandler("back-to-list", () => {
-            view.set('list'); selectedThread.set(null); comments.set(null); revealedSpoilers.set({}); replyingToCommentId.set(null); editingCommentId.set(null); isSubmitting.set(false); commentsPage.set(1); commentsHasNextPage.set(false);
+            saveActiveDraft();
+            // Pages loaded since the thread opened count as read too.
+            if (selectedThread.get() && comments.get()) recordThreadVisit(selectedThread.get()!);
+            view.set('list'); selectedThread.set(null); comments.set(null); error.set(null); focusedCommentId.set(null); highlightedCommentId.set(null); pendingCommentTarget.set(null); revealedSpoilers.set({}); spoilerShieldActive.set(false); replyingToCommentId.set(null); editingCommentId.set(null); isSubmitting.set(false); commentsPage.set(1); commentsHasNextPage.set(false);
+        });
+        ctx.registerEventHandler("cancel-reply", () => { saveActiveDraft(); replyingToCommentId.set(null); isReplyingToThread.set(false); replyInputRef.setValue(""); });
+        ctx.registerEventHandler("cancel-edit", () => { saveActiveDraft(); editingCommentId.set(null); editInputRef.setValue(""); });
+        ctx.registerEventHandler("open-drafts", () => { saveActiveDraft(); error.set(null); view.set('drafts'); });
+        const setCommentSort = (mode: CommentSortMode) => {
+            commentSort.set(mode);
+            const preferences = $storage.get(STORAGE_KEYS.commentSort) || {};
+            $storage.set(STORAGE_KEYS.commentSort, { ...preferences, [currentUser.get()?.name || '']: mode });
+        };
+
+        // The first unread comment is revealed like a linked one. Pages are loaded until it turns up; newest-first
+        // pages keep coming until they reach a comment that was already read, since anything unread comes before it.
+        ctx.registerEventHandler("jump-to-unread", async () => {
+            const thread = selectedThread.get();
+            const lastSeenId = previousVisit.get()?.lastSeenCommentId;
+            if (!thread || lastSeenId === undefined) return;
+
+            const hasReachedUnread = () => {
+                const list = comments.get() || [];
+                return !!firstCommentAfter(list, lastSeenId) && (commentSort.get() !== 'ID_DESC' || list.some(c => c.id <= lastSeenId));
+            };
+            while (!hasReachedUnread() && commentsHasNextPage.get() && selectedThread.get()?.id === thread.id && !error.get()) {
+                await fetchComments(thread.id, commentsPage.get() + 1);
+            }
+            const first = firstCommentAfter(comments.get() || [], lastSeenId);
+            if (!first || selectedThread.get()?.id !== thread.id) return;
+            pendingCommentTarget.set({ threadId: thread.id, commentId: first.id });
+            revealPendingComment(thread.id);
+        });
+
+        ctx.registerEventHandler("open-notifications", () => openNotifications());
+        ctx.registerEventHandler("load-more-notifications", () => fetchNotifications(notificationsPage.get() + 1));
+
+        ctx.registerEventHandler("toggle-filter-bar", () => isFilterBarOpen.set(!isFilterBarOpen.get()));
+        ctx.registerEventHandler("apply-comment-filter", () => {
+            commentFilter.set(f => ({ ...f, query: commentSearchInputRef.current || '', author: commentAuthorInputRef.current || '' }));
         });
-        ctx.registerEventHandler("cancel-reply", () => { replyingToCommentId.set(null); isReplyingToThread.set(false); replyInputRef.setValue(""); });
-        ctx.registerEventHandler("cancel-edit", () => { editingCommentId.set(null); editInputRef.setValue(""); });
+        ctx.registerEventHandler("clear-comment-filter", () => resetCommentFilter());
+        ctx.registerEventHandler("load-all-comments", () => loadAllComments());
         ctx.registerEventHandler("load-more-comments", () => { if (selectedThread.get()) fetchComments(selectedThread.get()!.id, commentsPage.get() + 1); });
-        ctx.registerEventHandler("go-to-create-view", () => { threadTitleInputRef.setValue(""); threadBodyInputRef.setValue(""); view.set('create'); });
+        ctx.registerEventHandler("go-to-create-view", () => { beforeComposerOpens(); threadTitleInputRef.setValue(""); threadBodyInputRef.setValue(""); view.set('create'); });
         ctx.registerEventHandler("submit-thread", () => handleSaveThread());
-        ctx.registerEventHandler("submit-edit-thread", () => handleSaveThread(selectedThread.get()!.id));
-        ctx.registerEventHandler('load-more-general-threads', () => {
-            const currentPage = generalDiscussionsPage.get();
-            const allGeneral = generalDiscussions.get();
-            const nextStartIndex = currentPage * GENERAL_DISCUSSIONS_PER_PAGE;
-            const nextEndIndex = nextStartIndex + GENERAL_DISCUSSIONS_PER_PAGE;
-            
-            const newThreads = allGeneral.slice(nextStartIndex, nextEndIndex);
-            
-            displayedGeneralDiscussions.set(d => [...d, ...newThreads]);
-            generalDiscussionsPage.set(p => p + 1);
-            generalDiscussionsHasNextPage.set(allGeneral.length > nextEndIndex);
+        ctx.registerEventHandler("cycle-episode-finished-action", () => {
+            const order: EpisodeFinishedAction[] = ['suggest', 'open', 'off'];
+            const next = order[(order.indexOf(episodeFinishedAction.get()) + 1) % order.length];
+            episodeFinishedAction.set(next);
+            $storage.set(STORAGE_KEYS.episodeFinishedAction, next);
+        });
+        ctx.registerEventHandler("toggle-related-media", () => {
+            const enabled = !includeRelatedMedia.get();
+            includeRelatedMedia.set(enabled);
+            $storage.set(STORAGE_KEYS.includeRelatedMedia, enabled);
+            loadThreadList();
         });
+        ctx.registerEventHandler("toggle-spoiler-safety", () => {
+            const enabled = !spoilerSafety.get();
+            spoilerSafety.set(enabled);
+            $storage.set(STORAGE_KEYS.spoilerSafety, enabled);
+        });
+        ctx.registerEventHandler("refresh-threads", () => loadThreadList(true));
+        ctx.registerEventHandler("refresh-comments", () => { if (selectedThread.get()) fetchComments(selectedThread.get()!.id, 1, true); });
+        ctx.registerEventHandler("retry-after-error", () => {
+            error.set(null);
+            fetchViewer();
+            if (view.get() === 'notifications') fetchNotifications(1);
+            else if (view.get() === 'thread' && selectedThread.get()) fetchComments(selectedThread.get()!.id, 1, true);
+            else loadThreadList(true);
+        });
+        ctx.registerEventHandler("reveal-all-comments", () => spoilerShieldActive.set(false));
+        ctx.registerEventHandler("submit-edit-thread", () => handleSaveThread(selectedThread.get()!.id));
+        ctx.registerEventHandler('load-more-general-threads', () => loadMoreGeneralThreads());
+        ctx.registerEventHandler('load-more-forum-threads', () => loadMoreForumThreads());
+        ctx.registerEventHandler("open-forum-browser", () => { isForumBrowserOpen.set(true); loadForumThreads(); });
+        ctx.registerEventHandler("close-forum-browser", () => { isForumBrowserOpen.set(false); loadThreadList(); });
+        ctx.registerEventHandler("search-forum", () => setForumQuery({ search: (forumSearchInputRef.current || '').trim() }));
+        ctx.registerEventHandler("clear-forum-search", () => { forumSearchInputRef.setValue(""); setForumQuery({ search: '' }); });
         
-        function renderToolbar(fieldRef: any) {
-            const applyFormatting = (prefix: string, suffix: string, isBlock: boolean = false) => {
-                const selection = selectionState.get();
-                let fullText = fieldRef.current || "";
+        // Wraps the selection in `prefix`/`suffix`, or inserts both at the cursor when nothing is selected.
+        const applyFormatting = (fieldRef: any, prefix: string, suffix: string, isBlock: boolean = false) => {
+            const selection = selectionState.get();
+            let fullText = fieldRef.current || "";
 
-                if (!selection) {
-                    ctx.toast.warning("Please click inside the text box first.");
-                    return;
-                }
+            if (!selection) {
+                ctx.toast.warning("Please click inside the text box first.");
+                return;
+            }
 
-                if (isBlock && selection.start > 0 && fullText[selection.start - 1] !== '\n') {
-                    prefix = '\n' + prefix;
-                }
+            if (isBlock && selection.start > 0 && fullText[selection.start - 1] !== '\n') {
+                prefix = '\n' + prefix;
+            }
 
-                const before = fullText.substring(0, selection.start);
-                const selected = fullText.substring(selection.start, selection.end);
-                const after = fullText.substring(selection.end);
+            const before = fullText.substring(0, selection.start);
+            const selected = fullText.substring(selection.start, selection.end);
+            const after = fullText.substring(selection.end);
 
-                let newText;
-                if (selected) { 
-                    newText = before + prefix + selected + suffix + after;
-                } else { 
-                    newText = before + prefix + suffix + after;
-                }
-                fieldRef.setValue(newText);
+            let newText;
+            if (selected) { 
+                newText = before + prefix + selected + suffix + after;
+            } else { 
+                newText = before + prefix + suffix + after;
+            }
+            fieldRef.setValue(newText);
+            composerRevision.set(r => r + 1);
+        };
+
+        // Completes the "@partial" before the cursor when there is one, otherwise inserts a new mention.
+        const insertMention = (fieldRef: any, name: string) => {
+            const selection = selectionState.get();
+            const fullText: string = fieldRef.current || "";
+            const cursor = selection ? selection.start : fullText.length;
+            const partial = fullText.substring(0, cursor).match(MENTION_PARTIAL_REGEX);
+            const start = partial ? cursor - partial[0].length : cursor;
+            fieldRef.setValue(`${fullText.substring(0, start)}@${name} ${fullText.substring(selection ? selection.end : cursor)}`);
+            composerRevision.set(r => r + 1);
+            toolbarPopover.set(null);
+        };
+
+        const openMediaDialog = (fieldRef: any, kind: MediaInsertKind) => {
+            if (!selectionState.get()) {
+                ctx.toast.warning("Please click inside the text box first.");
+                return;
+            }
+            mediaInsertTarget = fieldRef;
+            mediaUrlInputRef.setValue("");
+            mediaWidthInputRef.setValue("");
+            toolbarPopover.set(null);
+            mediaInsertDialog.set({ kind, error: null });
+        };
+
+        const confirmMediaDialog = () => {
+            const dialog = mediaInsertDialog.get();
+            if (!dialog || !mediaInsertTarget) return;
+            const result = buildMediaMarkup(dialog.kind, mediaUrlInputRef.current || '', mediaWidthInputRef.current || '');
+            if ('error' in result) {
+                mediaInsertDialog.set({ ...dialog, error: result.error });
+                return;
+            }
+            applyFormatting(mediaInsertTarget, result.markup, '', dialog.kind !== 'image');
+            mediaInsertDialog.set(null);
+        };
+
+        function renderToolbar(fieldRef: any) {
+            const format = (id: string, label: string, prefix: string, suffix: string, isBlock: boolean = false) =>
+                tray.button({ label, onClick: ctx.eventHandler(`tb-${id}`, () => applyFormatting(fieldRef, prefix, suffix, isBlock)), size: 'sm', intent: 'gray-subtle' });
+
+            const popover = toolbarPopover.get();
+            const togglePopover = (name: 'mention' | 'emoji') => toolbarPopover.set(popover === name ? null : name);
+
+            // Mention candidates: people in the thread, narrowed by any "@partial" typed before the cursor.
+            const mentionCandidates = () => {
+                const thread = selectedThread.get();
+                const names = collectCommentAuthors(comments.get() || []);
+                if (thread && !names.includes(thread.user.name)) names.unshift(thread.user.name);
+                const selection = selectionState.get();
+                const text: string = fieldRef.current || "";
+                const partial = text.substring(0, selection ? selection.start : text.length).match(MENTION_PARTIAL_REGEX)?.[1].toLowerCase() || '';
+                return names.filter(name => name !== currentUser.get()?.name && name.toLowerCase().startsWith(partial)).slice(0, 12);
             };
 
-            return tray.flex([
-                tray.button({ label: 'B', onClick: ctx.eventHandler('tb-b', () => applyFormatting('**', '**')), size: 'sm', intent: 'gray-subtle' }),
-                tray.button({ label: 'I', onClick: ctx.eventHandler('tb-i', () => applyFormatting('*', '*')), size: 'sm', intent: 'gray-subtle' }),
-                tray.button({ label: 'S', onClick: ctx.eventHandler('tb-s', () => applyFormatting('~~', '~~')), size: 'sm', intent: 'gray-subtle' }),
-                tray.button({ label: 'H', onClick: ctx.eventHandler('tb-h', () => applyFormatting('# ', '', true)), size: 'sm', intent: 'gray-subtle' }),
-                tray.button({ label: 'Link', onClick: ctx.eventHandler('tb-link', () => applyFormatting('[', '](url)')), size: 'sm', intent: 'gray-subtle' }),
-                tray.button({ label: 'Quote', onClick: ctx.eventHandler('tb-quote', () => applyFormatting('> ', '', true)), size: 'sm', intent: 'gray-subtle' }),
-                tray.button({ label: 'Code', onClick: ctx.eventHandler('tb-code', () => applyFormatting('`', '`')), size: 'sm', intent: 'gray-subtle' }),
-                tray.button({ label: 'Spoiler', onClick: ctx.eventHandler('tb-spoiler', () => applyFormatting('~!', '!~')), size: 'sm', intent: 'gray-subtle' }),
+            return tray.stack([
+                tray.flex([
+                    format('b', 'B', '**', '**'),
+                    format('i', 'I', '*', '*'),
+                    format('u', 'U', '<u>', '</u>'),
+                    format('s', 'S', '~~', '~~'),
+                    format('h', 'H', '# ', '', true),
+                    format('center', 'Center', '~~~', '~~~', true),
+                    format('link', 'Link', '[', '](url)'),
+                    format('quote', 'Quote', '> ', '', true),
+                    format('code', 'Code', '`', '`'),
+                    format('spoiler', 'Spoiler', '~!', '!~'),
+                    format('ul', '• List', '- ', '', true),
+                    format('ol', '1. List', '1. ', '', true),
+                    format('hr', '―', '---\n', '', true),
+                    tray.button({ label: 'Image', onClick: ctx.eventHandler('tb-image', () => openMediaDialog(fieldRef, 'image')), size: 'sm', intent: 'gray-subtle' }),
+                    tray.button({ label: 'YouTube', onClick: ctx.eventHandler('tb-youtube', () => openMediaDialog(fieldRef, 'youtube')), size: 'sm', intent: 'gray-subtle' }),
+                    tray.button({ label: 'Video', onClick: ctx.eventHandler('tb-video', () => openMediaDialog(fieldRef, 'video')), size: 'sm', intent: 'gray-subtle' }),
+                    tray.button({ label: '@', onClick: ctx.eventHandler('tb-mention', () => togglePopover('mention')), size: 'sm', intent: popover === 'mention' ? 'primary-subtle' : 'gray-subtle' }),
+                    tray.button({ label: '😀', onClick: ctx.eventHandler('tb-emoji', () => togglePopover('emoji')), size: 'sm', intent: popover === 'emoji' ? 'primary-subtle' : 'gray-subtle' }),
+                    tray.button({ label: isComposerPreviewOpen.get() ? 'Hide preview' : 'Preview', onClick: ctx.eventHandler('tb-preview', () => isComposerPreviewOpen.set(!isComposerPreviewOpen.get())), size: 'sm', intent: isComposerPreviewOpen.get() ? 'primary-subtle' : 'gray-subtle', style: { marginLeft: 'auto' } }),
+                ], { style: { gap: 1, flexWrap: 'wrap' } }),
+                ...(popover === 'mention' ? [(() => {
+                    const candidates = mentionCandidates();
+                    return tray.flex(candidates.length > 0
+                        ? candidates.map(name => tray.button({ label: `@${name}`, size: 'sm', intent: 'gray-subtle', onClick: ctx.eventHandler(`tb-mention-${name}`, () => insertMention(fieldRef, name)) }))
+                        : [tray.text({ text: "No one in this thread matches. Type @name to mention anyone.", size: 'sm', color: 'gray' })],
+                        { style: { gap: 1, flexWrap: 'wrap', paddingTop: '4px', borderTop: '1px solid #2D3748' } });
+                })()] : []),
+                ...(popover === 'emoji' ? [
+                    tray.flex(TOOLBAR_EMOJI.map((emoji, index) => tray.button({ label: emoji, size: 'sm', intent: 'gray-subtle', onClick: ctx.eventHandler(`tb-emoji-${index}`, () => { applyFormatting(fieldRef, emoji, ''); toolbarPopover.set(null); }) })),
+                        { style: { gap: 1, flexWrap: 'wrap', paddingTop: '4px', borderTop: '1px solid #2D3748' } })
+                ] : [])
             ], { style: { gap: 1, padding: '4px', backgroundColor: '#1A202C', borderRadius: '4px', marginBottom: '4px' } });
         }
 
+        // Runs the composer text through the same parseComment + renderSegment path as posted comments.
+        // Typing fires selection events, which re-render the tray and keep this current.
+        function renderComposerPreview(fieldRef: any) {
+            if (!isComposerPreviewOpen.get()) return [];
+            composerRevision.get(); // read so toolbar edits and restored drafts redraw it too
+            const text: string = fieldRef.current || "";
+            const segments = parseComment(text);
+            return [tray.stack([
+                tray.text({ text: "Preview", size: 'sm', color: 'gray' }),
+                text.trim()
+                    ? tray.div(segments.map((segment, index) => renderSegment(segment, `preview-${index}`)), { style: { display: 'block' } })
+                    : tray.text({ text: "Nothing to preview yet.", size: 'sm', color: 'gray', style: { fontStyle: 'italic' } })
+            ], { style: { gap: 1, padding: '8px', border: '1px dashed #4A5568', borderRadius: '4px', marginTop: '4px' } })];
+        }
+
+        // "Updated 3m ago" next to a button that bypasses the response cache.
+        function renderRefreshControl(cachedAt: number | null, refreshEvent: string, refreshing: boolean, loading: boolean) {
+            return tray.flex([
+                ...(cachedAt ? [tray.text({ text: `Updated ${formatTimeAgo(Math.floor(cachedAt / 1000))}`, size: 'sm', color: 'gray' })] : []),
+                tray.button({ label: refreshing ? "Refreshing..." : "↻ Refresh", size: 'sm', intent: 'gray-subtle', disabled: refreshing || loading, onClick: refreshEvent })
+            ], { style: { gap: 2, alignItems: 'center' } });
+        }
+
         // --- SKELETON LOADERS ---
         function renderCommentSkeleton() {
             return tray.div([
@@ -941,12 +3488,279 @@ function init() {
         tray.render(() => {
             const centralMessage = (text: string) => tray.stack([tray.text(text)], { style: { height: '100%', alignItems: 'center', justifyContent: 'center' } });
 
+            const renderErrorState = (err: AnilistError) => {
+                const inThread = view.get() === 'thread';
+                const states: { [kind in AnilistErrorKind]: { title: string; message: string } } = {
+                    'unauthenticated': { title: "Log in to AniList", message: "Connect your AniList account in Seanime's settings to read and post discussions, then retry." },
+                    'not-found': inThread
+                        ? { title: "This thread was removed", message: "It may have been deleted by its author or a moderator." }
+                        : { title: "Nothing to show", message: "AniList couldn't find discussions for this entry." },
+                    'forbidden': { title: "You can't access this", message: "The thread may be locked, or your account isn't allowed to view it." },
+                    'rate-limited': { title: "AniList is busy", message: "Too many requests were sent. Wait a moment and retry." },
+                    'network': { title: "Couldn't reach AniList", message: "Check your connection and retry." },
+                    'server': { title: "AniList is having trouble", message: "The server returned an error. Retry in a moment." },
+                    'validation': { title: "AniList rejected the request", message: err.message },
+                    'unknown': { title: "Something went wrong", message: err.message },
+                };
+                const state = states[err.kind];
+                const canRetry = err.isTransient || err.kind === 'unauthenticated' || err.kind === 'unknown';
+                return tray.stack([
+                    tray.text({ text: state.title, size: 'lg', weight: 'semibold', style: { textAlign: 'center' } }),
+                    tray.text({ text: state.message, color: 'gray', style: { textAlign: 'center' } }),
+                    tray.flex([
+                        ...(inThread ? [tray.button({ label: "< Back to discussions", intent: 'gray-subtle', onClick: "back-to-list" })] : []),
+                        ...(canRetry ? [tray.button({ label: "Retry", intent: 'primary', onClick: "retry-after-error" })] : []),
+                    ], { style: { gap: 2, justifyContent: 'center', marginTop: '8px' } })
+                ], { style: { height: '100%', alignItems: 'center', justifyContent: 'center', gap: 2, padding: '0 24px' } });
+            };
+
+            const renderNotificationsButton = () => tray.button({
+                label: unreadNotificationCount.get() > 0 ? `Notifications (${unreadNotificationCount.get()})` : "Notifications",
+                size: 'sm',
+                intent: unreadNotificationCount.get() > 0 ? 'primary-subtle' : 'gray-subtle',
+                onClick: "open-notifications"
+            });
+
+            const renderDraftsButton = () => {
+                const count = Object.keys(drafts.get()).length;
+                return tray.button({ label: count > 0 ? `Drafts (${count})` : "Drafts", size: 'sm', intent: 'gray-subtle', onClick: "open-drafts" });
+            };
+
+            const renderThreadSortMenu = () => {
+                const currentSortLabel = THREAD_SORT_OPTIONS.find(opt => opt.value === threadSort.get())?.label || "Sort by";
+                return tray.stack([
+                    tray.button({
+                        label: `Sort by: ${currentSortLabel}`,
+                        size: 'sm',
+                        intent: 'gray-subtle',
+                        onClick: ctx.eventHandler('toggle-sort-menu', () => isSortMenuOpen.set(!isSortMenuOpen.get()))
+                    }),
+                    ...(isSortMenuOpen.get() ? [
+                        tray.button({
+                            label: ' ',
+                            onClick: ctx.eventHandler('close-sort-backdrop', () => isSortMenuOpen.set(false)),
+                            style: { position: 'fixed', top: 0, left: 0, width: '100%', height: '100%', background: 'transparent', border: 'none', zIndex: 40 }
+                        }),
+                        tray.stack(
+                            THREAD_SORT_OPTIONS.map(option => tray.button({
+                                label: option.label,
+                                size: 'sm',
+                                intent: threadSort.get() === option.value ? 'primary' : 'gray',
+                                onClick: ctx.eventHandler(`sort-${option.value}`, () => {
+                                    threadSort.set(option.value);
+                                    isSortMenuOpen.set(false);
+                                }),
+                                style: { justifyContent: 'flex-start', width: '100%' }
+                            })),
+                            {
+                                style: {
+                                    position: 'absolute',
+                                    top: '100%',
+                                    right: 0,
+                                    marginTop: '4px',
+                                    backgroundColor: '#2D3748',
+                                    border: '1px solid #4A5568',
+                                    borderRadius: '8px',
+                                    padding: '4px',
+                                    zIndex: 50,
+                                    width: '160px',
+                                    boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)'
+                                }
+                            }
+                        )
+                    ] : [])
+                ], { style: { position: 'relative' } });
+            };
+
+            const renderUnreadBadge = (thread: Thread) => {
+                const unread = unreadCount(thread);
+                return unread > 0 ? [tray.text({ text: `${unread} new`, size: 'sm', weight: 'semibold', style: { color: '#1A202C', backgroundColor: '#63B3ED', borderRadius: '9999px', padding: '0 6px', whiteSpace: 'nowrap' } })] : [];
+            };
+
+            const renderThreadRow = (thread: Thread, withMedia: boolean = false) =>
+                tray.stack([
+                    tray.flex([
+                        tray.div([], { style: { width: '40px', height: '40px', borderRadius: '50%', backgroundImage: `url(${thread.user.avatar.large})`, backgroundSize: 'cover', backgroundPosition: 'center', flexShrink: 0 } }),
+                        tray.stack([
+                            ...(isAheadOfProgress(thread) ? [
+                                tray.flex([
+                                    tray.text({ text: thread.title, weight: 'semibold', style: { filter: 'blur(5px)', userSelect: 'none' } }),
+                                    tray.text({ text: `Spoilers past ${isManga() ? 'ch' : 'ep'} ${watchProgress.get()}`, size: 'sm', style: { color: '#F6AD55', whiteSpace: 'nowrap' } }),
+                                    ...renderUnreadBadge(thread)
+                                ], { style: { gap: 2, alignItems: 'center' } })
+                            ] : [tray.flex([tray.text({ text: thread.title, weight: 'semibold' }), ...renderUnreadBadge(thread)], { style: { gap: 2, alignItems: 'center' } })]),
+                            ...(threadOriginLabel(thread, withMedia) ? [tray.text({ text: threadOriginLabel(thread, withMedia)!, size: 'sm', style: { color: '#63B3ED' } })] : []),
+                            tray.flex([
+                                tray.text({ text: `Created by ${thread.user.name}`, size: 'sm', color: 'gray' }),
+                                tray.flex([
+                                    renderStatWithIcon(commentsIconSvg, thread.replyCount),
+                                    tray.text({ text: '·', size: 'sm', color: 'gray' }),
+                                    renderStatWithIcon(eyeIconSvg, thread.viewCount || 0),
+                                    tray.text({ text: '·', size: 'sm', color: 'gray' }),
+                                    tray.text({ text: `Last by ${thread.replyUser?.name || 'N/A'} ${formatTimeAgo(thread.repliedAt)}`, size: 'sm', color: 'gray' })
+                                ], { style: { alignItems: 'center', gap: 2, flexWrap: 'nowrap' } })
+                            ], { style: { justifyContent: 'space-between', alignItems: 'center', color: '#A0AEC0', flexWrap: 'nowrap', whiteSpace: 'nowrap' } })
+                        ], { style: { flexGrow: 1, gap: 1 } })
+                    ], { style: { gap: 3, alignItems: 'center' } }),
+                    tray.button({
+                        label: ' ',
+                        style: { position: 'absolute', top: 0, left: 0, width: '100%', height: '100%', background: 'transparent', border: 'none', color: 'transparent', cursor: 'pointer' },
+                        onClick: ctx.eventHandler(`select-thread-${thread.id}`, () => selectThread(thread))
+                    })
+                ], {
+                    style: { position: 'relative', padding: '10px 5px', borderBottom: '1px solid #2D3748' },
+                    hoverStyle: { backgroundColor: 'rgba(255, 255, 255, 0.05)' }
+                });
+
+            // Offered at the top of a composer when an unsent draft exists for it.
+            const renderDraftPrompt = (target: DraftTarget) => {
+                const key = draftKey(target);
+                const draft = drafts.get()[key];
+                if (!draft || dismissedDraftPrompts.get()[key]) return [];
+                return [tray.flex([
+                    tray.text({ text: `You have an unsent draft from ${formatTimeAgo(Math.floor(draft.updatedAt / 1000))}.`, size: 'sm', style: { color: '#63B3ED' } }),
+                    tray.flex([
+                        tray.button({ label: "Restore", size: 'sm', intent: 'primary-subtle', onClick: ctx.eventHandler(`restore-draft-${key}`, () => restoreDraft(key)) }),
+                        tray.button({ label: "Discard", size: 'sm', intent: 'gray-subtle', onClick: ctx.eventHandler(`discard-draft-${key}`, () => { deleteDraft(key); dismissedDraftPrompts.set(d => ({ ...d, [key]: true })); }) })
+                    ], { style: { gap: 1 } })
+                ], { style: { justifyContent: 'space-between', alignItems: 'center', gap: 2, padding: '6px 8px', borderRadius: '4px', backgroundColor: 'rgba(99, 179, 237, 0.08)' } })];
+            };
+
+            const renderDraftsView = () => {
+                const entries = Object.keys(drafts.get()).map(key => ({ key, draft: drafts.get()[key] })).sort((a, b) => b.draft.updatedAt - a.draft.updatedAt);
+                const describe = (draft: Draft) => {
+                    const where = draft.threadTitle ? `"${draft.threadTitle}"` : 'a thread';
+                    switch (draft.kind) {
+                        case 'comment': return `Comment in ${where}`;
+                        case 'reply': return `Reply in ${where}`;
+                        case 'edit': return `Edit of your comment in ${where}`;
+                        case 'thread': return `New discussion${draft.title ? ` "${draft.title}"` : ''}`;
+                        case 'thread-edit': return `Edit of ${where}`;
+                    }
+                };
+                return tray.stack([
+                    tray.flex([
+                        tray.button({ label: "< Back", intent: "gray-subtle", size: "sm", onClick: "back-to-list" }),
+                        tray.text({ text: "Unsent Drafts", size: 'lg', weight: 'semibold' }),
+                        tray.div([], { style: { width: '60px' } })
+                    ], { style: { justifyContent: 'space-between', alignItems: 'center', paddingBottom: '8px', flexShrink: 0 } }),
+                    tray.div([
+                        ...(entries.length === 0 ? [tray.text({ text: "No unsent drafts.", align: 'center', color: 'gray', style: { marginTop: '20px' } })] : []),
+                        ...entries.map(({ key, draft }) => tray.flex([
+                            tray.stack([
+                                tray.text({ text: describe(draft), weight: 'semibold' }),
+                                tray.text({ text: `${draft.mediaTitle ? `${draft.mediaTitle} · ` : ''}${formatTimeAgo(Math.floor(draft.updatedAt / 1000))}`, size: 'sm', color: 'gray' }),
+                                tray.text({ text: draft.body.length > 140 ? `${draft.body.slice(0, 140)}…` : draft.body, size: 'sm', style: { color: '#A0AEC0', wordBreak: 'break-word' } })
+                            ], { style: { flexGrow: 1, gap: 1, minWidth: 0 } }),
+                            tray.flex([
+                                tray.button({ label: "Open", size: 'sm', intent: 'primary-subtle', onClick: ctx.eventHandler(`open-draft-${key}`, () => openDraft(key)) }),
+                                tray.button({ label: "Delete", size: 'sm', intent: 'alert-subtle', onClick: ctx.eventHandler(`delete-draft-${key}`, () => actionConfirmation.set({ message: "Delete this draft?", onConfirm: () => deleteDraft(key) })) })
+                            ], { style: { gap: 1, flexShrink: 0 } })
+                        ], { style: { gap: 3, alignItems: 'center', padding: '10px 5px', borderBottom: '1px solid #2D3748' } }))
+                    ], { style: { flexGrow: 1, overflowY: 'auto' } })
+                ], { style: { height: '100%', display: 'flex', flexDirection: 'column' } });
+            };
+
+            const renderNotificationsView = () => {
+                const list = notifications.get();
+                const header = tray.flex([
+                    tray.button({ label: "< Back", intent: "gray-subtle", size: "sm", onClick: "back-to-list" }),
+                    tray.text({ text: "Forum Notifications", size: 'lg', weight: 'semibold' }),
+                    tray.div([], { style: { width: '60px' } })
+                ], { style: { justifyContent: 'space-between', alignItems: 'center', paddingBottom: '8px', flexShrink: 0 } });
+
+                if (error.get()) return tray.stack([header, renderErrorState(error.get()!)], { style: { height: '100%' } });
+
+                const rows = (list || []).map(n => {
+                    const isUnread = n.createdAt > previousNotificationsSeenAt.get();
+                    const thread = n.thread;
+                    return tray.stack([
+                        tray.flex([
+                            tray.div([], { style: { width: '32px', height: '32px', borderRadius: '50%', backgroundImage: n.user ? `url(${n.user.avatar.large})` : 'none', backgroundColor: '#2D3748', backgroundSize: 'cover', backgroundPosition: 'center', flexShrink: 0 } }),
+                            tray.stack([
+                                tray.text({ text: `${n.user?.name || 'Someone'} ${FORUM_NOTIFICATION_DESCRIPTIONS[n.type]} ${thread ? `"${thread.title}"` : 'a deleted thread'}`, weight: isUnread ? 'semibold' : 'normal' }),
+                                tray.text({ text: formatTimeAgo(n.createdAt), size: 'sm', color: 'gray' })
+                            ], { style: { flexGrow: 1, gap: 0, minWidth: 0 } }),
+                            ...(isUnread ? [tray.div([], { style: { width: '8px', height: '8px', borderRadius: '50%', backgroundColor: '#63B3ED', flexShrink: 0 } })] : [])
+                        ], { style: { gap: 3, alignItems: 'center' } }),
+                        ...(thread ? [tray.button({
+                            label: ' ',
+                            style: { position: 'absolute', top: 0, left: 0, width: '100%', height: '100%', background: 'transparent', border: 'none', color: 'transparent', cursor: 'pointer' },
+                            onClick: ctx.eventHandler(`open-notification-${n.id}`, () => openThreadAtComment(thread, n.commentId))
+                        })] : [])
+                    ], {
+                        style: { position: 'relative', padding: '10px 5px', borderBottom: '1px solid #2D3748', backgroundColor: isUnread ? 'rgba(99, 179, 237, 0.05)' : 'transparent' },
+                        hoverStyle: { backgroundColor: 'rgba(255, 255, 255, 0.05)' }
+                    });
+                });
+
+                return tray.stack([
+                    header,
+                    tray.div([
+                        ...(list === null ? Array(4).fill(0).map(() => tray.div([], { style: { height: '52px', backgroundColor: '#2D3748', borderRadius: '4px', marginTop: '8px', opacity: 0.5 } })) : []),
+                        ...(list && list.length === 0 ? [tray.text({ text: "No forum notifications yet.", align: 'center', color: 'gray', style: { marginTop: '20px' } })] : []),
+                        ...rows,
+                        ...(notificationsHasNextPage.get() ? [tray.button({ label: isLoadingNotifications.get() ? "Loading..." : "Load More", intent: "primary-subtle", disabled: isLoadingNotifications.get(), onClick: "load-more-notifications", style: { marginTop: '12px', width: '100%' } })] : [])
+                    ], { style: { flexGrow: 1, overflowY: 'auto' } })
+                ], { style: { height: '100%', display: 'flex', flexDirection: 'column' } });
+            };
+
+            const renderForumBrowser = () => {
+                const forum = forumQuery.get();
+                const list = forumThreads.get();
+                const categoryButton = (id: number | null, name: string) => tray.button({
+                    label: name,
+                    size: 'sm',
+                    intent: forum.categoryId === id ? 'primary-subtle' : 'gray-subtle',
+                    onClick: ctx.eventHandler(`forum-category-${id ?? 'all'}`, () => setForumQuery({ categoryId: id }))
+                });
+                const categoryName = FORUM_CATEGORIES.find(category => category.id === forum.categoryId)?.name;
+                const listTitle = forum.search ? `Threads matching "${forum.search}"` : categoryName ? `${categoryName} threads` : "Recent threads";
+
+                const header = tray.stack([
+                    tray.flex([
+                        ...(currentMediaId.get() ? [tray.button({ label: `< ${currentMediaTitle.get() || "Back to entry"}`, intent: 'gray-subtle', size: 'sm', onClick: "close-forum-browser" })] : []),
+                        tray.text({ text: "AniList Forum", size: "lg", weight: "semibold" }),
+                        tray.flex([renderRefreshControl(forumCachedAt.get(), "refresh-threads", isRefreshing.get(), isLoading.get()), renderNotificationsButton(), renderDraftsButton()], { style: { gap: 2, alignItems: 'center', marginLeft: 'auto' } })
+                    ], { style: { gap: 2, alignItems: 'center', flexWrap: 'wrap' } }),
+                    tray.flex([
+                        tray.div([tray.input({ placeholder: "Search thread titles...", fieldRef: forumSearchInputRef })], { style: { flexGrow: 1 } }),
+                        tray.button({ label: "Search", size: 'sm', intent: 'primary', onClick: "search-forum" }),
+                        tray.button({ label: "Clear", size: 'sm', intent: 'gray-subtle', disabled: !forum.search, onClick: "clear-forum-search" })
+                    ], { style: { gap: 2, alignItems: 'center' } }),
+                    tray.flex([categoryButton(null, "All"), ...FORUM_CATEGORIES.map(category => categoryButton(category.id, category.name))], { style: { gap: 1, flexWrap: 'wrap' } }),
+                    tray.flex([
+                        tray.text({ text: listTitle, weight: "semibold" }),
+                        renderThreadSortMenu()
+                    ], { style: { justifyContent: 'space-between', alignItems: 'center', marginTop: '4px' } })
+                ], { style: { gap: 2, paddingBottom: '8px', borderBottom: '1px solid #2D3748' } });
+
+                return tray.stack([
+                    header,
+                    tray.div([
+                        ...(list === null ? Array(5).fill(0).map(() => renderThreadSkeleton()) : []),
+                        ...(list && list.length === 0 ? [tray.text({ text: forum.search ? "No threads match that search." : "No threads in this category yet.", align: 'center', color: 'gray', style: { marginTop: '20px' } })] : []),
+                        ...(list || []).map(thread => renderThreadRow(thread, true)),
+                        ...(forumHasNextPage.get() ? [tray.button({ label: isLoadingMoreThreads.get() ? "Loading..." : "Load More", intent: "primary-subtle", disabled: isLoadingMoreThreads.get(), onClick: "load-more-forum-threads", style: { marginTop: '12px', width: '100%' } })] : [])
+                    ], { style: { flexGrow: 1, overflowY: 'auto' } })
+                ], { style: { height: '100%', display: 'flex', flexDirection: 'column', padding: '0 10px' } });
+            };
+
             const mainContent = (() => {
-                if (!currentMediaId.get()) return centralMessage("Navigate to an anime to see discussions.");
+                if (view.get() === 'notifications') return renderNotificationsView();
+                if (view.get() === 'drafts') return renderDraftsView();
 
-                if (isLoading.get() && episodeDiscussions.get().length === 0 && displayedGeneralDiscussions.get().length === 0 && !['create', 'edit-thread'].includes(view.get())) {
+                // Off an entry page the list is the forum browser; threads opened from it read like any other.
+                if (view.get() === 'list' && isForumMode()) {
+                    return error.get() ? renderErrorState(error.get()!) : renderForumBrowser();
+                }
+                if (!currentMediaId.get() && view.get() === 'create') {
+                    return centralMessage("Navigate to an anime or manga to start a discussion.");
+                }
+
+                if (isLoading.get() && episodeDiscussions.get().length === 0 && generalDiscussions.get().length === 0 && !['create', 'edit-thread'].includes(view.get())) {
                      return tray.stack([
-                        tray.text({ text: "Episode Discussions", size: "lg", align: "center", weight: "semibold" }),
+                        tray.text({ text: isManga() ? "Chapter Discussions" : "Episode Discussions", size: "lg", align: "center", weight: "semibold" }),
                         tray.flex(Array(8).fill(0).map(() => tray.div([], { style: { width: '40px', height: '30px', backgroundColor: '#2D3748', borderRadius: '4px' } })), { style: { gap: 2, flexWrap: 'wrap', justifyContent: 'center', marginTop: '8px', opacity: 0.5 } }),
                         tray.div([], { style: { borderTop: '1px solid #2D3748', marginTop: '10px', marginBottom: '10px' } }),
                         tray.flex([
@@ -960,17 +3774,70 @@ function init() {
                     ], { style: { height: '100%', padding: '0 10px' } });
                 }
 
-                if (error.get()) return centralMessage(error.get()!);
+                if (error.get()) return renderErrorState(error.get()!);
 
                 const me = currentUser.get();
-                const renderComment = (comment: ThreadComment) => {
+                const renderShieldedBody = (revealKey: string) => tray.button({
+                    label: "Hidden by spoiler safety · Show",
+                    intent: 'gray-subtle',
+                    size: 'sm',
+                    style: { alignSelf: 'flex-start' },
+                    onClick: ctx.eventHandler(`reveal-${revealKey}`, () => revealedSpoilers.set(s => ({ ...s, [revealKey]: true })))
+                });
+                const isNewComment = (comment: ThreadComment) => !!previousVisit.get() && !comment.isOptimistic && comment.id > previousVisit.get()!.lastSeenCommentId;
+                const renderNewBadge = (label: string) => tray.text({
+                    text: label,
+                    size: 'sm',
+                    weight: 'semibold',
+                    style: { color: '#1A202C', backgroundColor: '#63B3ED', borderRadius: '9999px', padding: '0 6px', marginLeft: '8px', whiteSpace: 'nowrap' }
+                });
+
+                const renderReplies = (comment: ThreadComment, depth: number) => {
+                    const children = comment.childComments || [];
+                    if (children.length === 0) return [];
+
+                    const replyCount = countReplies(comment);
+                    const branchToggle = (label: string, expand: boolean) => tray.button({
+                        label,
+                        intent: 'gray-subtle',
+                        size: 'sm',
+                        style: { alignSelf: 'flex-start', marginTop: '8px', marginLeft: '44px' },
+                        onClick: ctx.eventHandler(`toggle-branch-${comment.id}`, () => expandedBranches.set(b => ({ ...b, [comment.id]: expand })))
+                    });
+
+                    // Past the nesting limit the branch opens on its own instead of indenting further.
+                    if (depth + 1 >= REPLY_NESTING_DEPTH) {
+                        return [tray.button({
+                            label: `Continue this thread (${replyCount} ${replyCount === 1 ? 'reply' : 'replies'}) →`,
+                            intent: 'primary-subtle',
+                            size: 'sm',
+                            style: { alignSelf: 'flex-start', marginTop: '8px', marginLeft: '44px' },
+                            onClick: ctx.eventHandler(`focus-comment-${comment.id}`, () => focusedCommentId.set(comment.id))
+                        })];
+                    }
+
+                    // While filtering, the tree only holds matches and their ancestors, so nothing starts collapsed.
+                    const lastSeenId = previousVisit.get()?.lastSeenCommentId;
+                    const hasNewReplies = lastSeenId !== undefined && children.some(child => hasCommentNewerThan(child, lastSeenId));
+                    const isExpanded = isCommentFilterActive(commentFilter.get()) || (expandedBranches.get()[comment.id] ?? (hasNewReplies || depth + 1 < REPLY_COLLAPSE_DEPTH));
+                    if (!isExpanded) return [branchToggle(`+ ${replyCount} more ${replyCount === 1 ? 'reply' : 'replies'}`, true)];
+
+                    return [
+                        branchToggle("− Hide replies", false),
+                        tray.div(children.map(child => renderComment(child, depth + 1)), { style: { marginLeft: '12px', borderLeft: '2px solid #2D3748', paddingLeft: '16px' } })
+                    ];
+                };
+
+                const renderComment = (comment: ThreadComment, depth: number = 0): any => {
                     const isEditingThisComment = editingCommentId.get() === comment.id;
 
                     if (isEditingThisComment) {
                         return tray.div([
                             tray.stack([
+                                ...renderDraftPrompt({ kind: 'edit', commentId: comment.id }),
                                 renderToolbar(editInputRef),
                                 tray.input({ placeholder: "Edit your comment...", fieldRef: editInputRef, textarea: true, onSelect: "inputSelectionChange" }),
+                                ...renderComposerPreview(editInputRef),
                                 tray.flex([
                                     tray.button({ label: isSubmitting.get() ? "Saving..." : "Save", intent: "primary", disabled: isSubmitting.get(), onClick: ctx.eventHandler(`save-edit-${comment.id}`, () => handleEditComment(comment.id, editInputRef.current!)) }),
                                     tray.button({ label: "Cancel", intent: "gray", onClick: "cancel-edit" })
@@ -979,14 +3846,16 @@ function init() {
                         ], { style: { borderTop: '1px solid #2D3748', paddingTop: '12px', marginTop: '12px' } });
                     }
 
-                    const segments = parseComment(comment.comment);
+                    const segments = commentSegments(comment);
+                    const isShielded = spoilerShieldActive.get() && !revealedSpoilers.get()[`comment-${comment.id}`];
 
                     const actionButtons = [
                         tray.button({ label: `♥ ${comment.likeCount}`, intent: comment.isLiked ? 'primary' : 'gray-subtle', size: 'sm', onClick: ctx.eventHandler(`like-comment-${comment.id}`, () => handleToggleLike(comment.id)) }),
-                        tray.button({ label: `Reply`, intent: 'gray-subtle', size: 'sm', onClick: ctx.eventHandler(`reply-to-comment-${comment.id}`, () => { replyingToCommentId.set(comment.id); editingCommentId.set(null); isSubmitting.set(false); replyInputRef.setValue(""); })})
+                        tray.button({ label: `Reply`, intent: 'gray-subtle', size: 'sm', onClick: ctx.eventHandler(`reply-to-comment-${comment.id}`, () => { beforeComposerOpens(); replyingToCommentId.set(comment.id); editingCommentId.set(null); isSubmitting.set(false); replyInputRef.setValue(""); })}),
+                        ...(comment.isOptimistic ? [] : [tray.button({ label: 'Copy link', intent: 'gray-subtle', size: 'sm', onClick: ctx.eventHandler(`share-comment-${comment.id}`, () => shareCommentLink(comment.id)) })])
                     ];
                     if (me && comment.user.name === me.name) {
-                        actionButtons.push(tray.button({ label: 'Edit', intent: 'gray-subtle', size: 'sm', onClick: ctx.eventHandler(`edit-comment-${comment.id}`, () => { editingCommentId.set(comment.id); editInputRef.setValue(comment.comment.replace(/<br>/g, '\n')); replyingToCommentId.set(null); isSubmitting.set(false); })}));
+                        actionButtons.push(tray.button({ label: 'Edit', intent: 'gray-subtle', size: 'sm', onClick: ctx.eventHandler(`edit-comment-${comment.id}`, () => { beforeComposerOpens(); editingCommentId.set(comment.id); editInputRef.setValue(comment.comment.replace(/<br>/g, '\n')); replyingToCommentId.set(null); isSubmitting.set(false); })}));
                         actionButtons.push(tray.button({ label: 'Delete', intent: 'alert-subtle', size: 'sm', onClick: ctx.eventHandler(`delete-comment-${comment.id}`, () => actionConfirmation.set({ message: "Are you sure you want to delete this comment?", onConfirm: () => handleDeleteComment(comment.id) }))}));
                     }
 
@@ -1002,17 +3871,22 @@ function init() {
                                         hoverStyle: { textDecoration: 'underline' },
                                         onClick: ctx.eventHandler(`author-link-${comment.id}`, () => linkConfirmation.set({ url: `https://anilist.co/user/${comment.user.name}`, message: "Are you sure you want to visit this user's profile?" }))
                                     }),
-                                    tray.text({ text: formatTimeAgo(comment.createdAt), size: "sm", color: "gray", style: { fontStyle: 'italic', marginLeft: '8px', whiteSpace: 'nowrap' } })
+                                    tray.text({ text: formatTimeAgo(comment.createdAt), size: "sm", color: "gray", style: { fontStyle: 'italic', marginLeft: '8px', whiteSpace: 'nowrap' } }),
+                                    ...(isNewComment(comment) ? [renderNewBadge("New")] : [])
                                 ], { style: { alignItems: 'baseline', alignSelf: 'flex-start' } }),
-                                tray.div(segments.map((segment, index) => renderSegment(segment, `${comment.id}-${index}`)), { style: { display: 'block' } }),
+                                isShielded
+                                    ? renderShieldedBody(`comment-${comment.id}`)
+                                    : tray.div(segments.map((segment, index) => renderSegment(segment, `${comment.id}-${index}`)), { style: { display: 'block' } }),
                                 tray.flex(actionButtons, { style: { gap: 2, marginTop: '4px' } })
                             ], { style: { flexGrow: 1, gap: 1, minWidth: 0 } })
                         ], { style: { gap: 3, alignItems: 'start' } }),
 
                         ...(replyingToCommentId.get() === comment.id ? [
                             tray.stack([
+                                ...renderDraftPrompt({ kind: 'reply', threadId: selectedThread.get()!.id, commentId: comment.id }),
                                 renderToolbar(replyInputRef),
                                 tray.input({ placeholder: "Write a reply...", fieldRef: replyInputRef, textarea: true, onSelect: "inputSelectionChange" }),
+                                ...renderComposerPreview(replyInputRef),
                                 tray.flex([
                                     tray.button({ label: isSubmitting.get() ? "Sending..." : "Send", intent: "primary", disabled: isSubmitting.get(), onClick: ctx.eventHandler(`send-reply-${comment.id}`, () => handlePostReply(replyInputRef.current!, comment.id)) }),
                                     tray.button({ label: "Cancel", intent: "gray", onClick: "cancel-reply" })
@@ -1020,10 +3894,14 @@ function init() {
                             ], { style: { marginTop: '8px', marginLeft: '44px' } })
                         ] : []),
 
-                        ...(comment.childComments && comment.childComments.length > 0 ?
-                            [tray.div(comment.childComments.map(child => renderComment(child)), { style: { marginLeft: '12px', borderLeft: '2px solid #2D3748', paddingLeft: '16px' } })]
-                            : [])
-                    ], { style: { borderTop: '1px solid #2D3748', paddingTop: '12px', marginTop: '12px', opacity: comment.isOptimistic ? 0.6 : 1 } });
+                        ...renderReplies(comment, depth)
+                    ], { style: {
+                        borderTop: '1px solid #2D3748',
+                        paddingTop: '12px',
+                        marginTop: '12px',
+                        opacity: comment.isOptimistic ? 0.6 : 1,
+                        ...(highlightedCommentId.get() === comment.id ? { backgroundColor: 'rgba(99, 179, 237, 0.08)', boxShadow: 'inset 3px 0 0 #63B3ED', paddingLeft: '8px' } : {})
+                    } });
                 };
 
                 if (view.get() === 'create' || view.get() === 'edit-thread') {
@@ -1034,10 +3912,12 @@ function init() {
                         ], { style: { justifyContent: 'space-between', alignItems: 'center', paddingBottom: '8px', flexShrink: 0 } }),
                         tray.div([
                             tray.stack([
-                                tray.text({ text: `${isEditing ? 'Edit' : 'Create'} a discussion for ${currentMediaTitle.get() || 'this anime'}`, weight: "semibold", size: "xl", align: "center" }),
-                                tray.input({ label: "Title", fieldRef: threadTitleInputRef, placeholder: "Enter the discussion title" }),
+                                tray.text({ text: `${isEditing ? 'Edit' : 'Create'} a discussion for ${currentMediaTitle.get() || `this ${isManga() ? 'manga' : 'anime'}`}`, weight: "semibold", size: "xl", align: "center" }),
+                                ...renderDraftPrompt(isEditing ? { kind: 'thread-edit', threadId: selectedThread.get()?.id } : { kind: 'thread', mediaId: currentMediaId.get() ?? undefined }),
+                                tray.input({ label: "Title", fieldRef: threadTitleInputRef, placeholder: "Enter the discussion title", onSelect: "draftInputChange" }),
                                 tray.input({ label: "Body", fieldRef: threadBodyInputRef, placeholder: "Write your thoughts...", textarea: true, onSelect: "inputSelectionChange" }),
                                 renderToolbar(threadBodyInputRef),
+                                ...renderComposerPreview(threadBodyInputRef),
                                 tray.flex([
                                     tray.button({ label: isSubmitting.get() ? "Submitting..." : (isEditing ? "Save Changes" : "Submit Discussion"), intent: "primary", disabled: isSubmitting.get(), onClick: isEditing ? "submit-edit-thread" : "submit-thread" }),
                                     tray.button({ label: "Cancel", intent: "gray", onClick: "back-to-list" }),
@@ -1057,17 +3937,57 @@ function init() {
                     }
                     const opSegments = parseComment(thread.body);
                     const currentComments = comments.get();
+                    // A focused branch that has since been deleted falls back to the full list.
+                    const focusedComment = focusedCommentId.get() !== null ? findCommentInTree(currentComments || [], focusedCommentId.get()!) : null;
+                    const filter = commentFilter.get();
+                    const commentSortOptions: { label: string; value: CommentSortMode }[] = [
+                        { label: "Newest", value: 'ID_DESC' },
+                        { label: "Oldest", value: 'ID' },
+                        { label: "Top", value: 'TOP' },
+                        { label: "Most discussed", value: 'DISCUSSED' },
+                        { label: "Active", value: 'ACTIVE' }
+                    ];
+                    const isFiltering = isCommentFilterActive(filter);
+                    const matchesFilter = (comment: ThreadComment) => commentMatchesFilter(comment, filter, me?.name || null, commentSegments);
+                    const baseComments = focusedComment ? [focusedComment] : (currentComments || []);
+                    const visibleComments = isFiltering ? filterCommentTree(baseComments, matchesFilter) : baseComments;
+
+                    // Unread markers compare against the visit recorded before this one; first visits have none.
+                    const lastSeenId = previousVisit.get()?.lastSeenCommentId;
+                    const newCommentCount = lastSeenId !== undefined && currentComments ? countMatchingComments(currentComments, c => c.id > lastSeenId && !c.isOptimistic) : 0;
+                    const renderUnreadDivider = (label: string) => tray.flex([
+                        tray.div([], { style: { flexGrow: 1, borderTop: '1px solid #63B3ED' } }),
+                        tray.text({ text: label, size: 'sm', style: { color: '#63B3ED', whiteSpace: 'nowrap' } }),
+                        tray.div([], { style: { flexGrow: 1, borderTop: '1px solid #63B3ED' } })
+                    ], { style: { alignItems: 'center', gap: 2, marginTop: '12px' } });
+                    // The divider only makes sense when comments are in ID order: it sits where read turns into unread.
+                    const renderCommentList = () => {
+                        const mode = commentSort.get();
+                        if (lastSeenId === undefined || newCommentCount === 0 || !isServerCommentSort(mode)) return visibleComments.map(comment => renderComment(comment));
+                        const rendered: any[] = [];
+                        visibleComments.forEach((comment, index) => {
+                            const isNew = hasCommentNewerThan(comment, lastSeenId);
+                            const previousIsNew = index > 0 && hasCommentNewerThan(visibleComments[index - 1], lastSeenId);
+                            if (mode === 'ID' && isNew && (index === 0 || !previousIsNew)) rendered.push(renderUnreadDivider("New since your last visit ↓"));
+                            if (mode === 'ID_DESC' && !isNew && previousIsNew) rendered.push(renderUnreadDivider("New since your last visit ↑"));
+                            rendered.push(renderComment(comment));
+                        });
+                        return rendered;
+                    };
                     const isAuthor = me && thread.user.name === me.name;
                     
                     return tray.stack([
                         tray.flex([
                             tray.button({ label: "< Back", intent: "gray-subtle", size: "sm", onClick: "back-to-list" }),
-                            tray.anchor({
-                                text: "Open in Browser 🔗",
-                                href: thread.siteUrl,
-                                target: "_blank",
-                                className: "bg-gray-800 hover:bg-gray-700 text-gray-200 text-sm font-medium px-3 py-1.5 rounded-md transition-colors no-underline",
-                            })
+                            tray.flex([
+                                renderRefreshControl(commentsCachedAt.get(), "refresh-comments", isRefreshingComments.get(), isLoadingComments.get()),
+                                tray.anchor({
+                                    text: "Open in Browser 🔗",
+                                    href: thread.siteUrl,
+                                    target: "_blank",
+                                    className: "bg-gray-800 hover:bg-gray-700 text-gray-200 text-sm font-medium px-3 py-1.5 rounded-md transition-colors no-underline",
+                                })
+                            ], { style: { gap: 2, alignItems: 'center' } })
                         ], { style: { justifyContent: 'space-between', alignItems: 'center', paddingBottom: '8px', flexShrink: 0 } }),
 
                         tray.div([
@@ -1087,154 +4007,172 @@ function init() {
                                                 }),
                                                 tray.text({ text: formatTimeAgo(thread.createdAt), size: "sm", color: "gray", style: { fontStyle: 'italic', marginLeft: '8px', whiteSpace: 'nowrap' } })
                                             ], { style: { alignItems: 'baseline', alignSelf: 'flex-start' } }),
-                                            tray.div(opSegments.map((segment, index) => renderSegment(segment, `op-${index}`)), { style: { display: 'block'} }),
-                                            ...(isAuthor ? [
-                                                tray.flex([
+                                            spoilerShieldActive.get() && !revealedSpoilers.get()['comment-op']
+                                                ? renderShieldedBody('comment-op')
+                                                : tray.div(opSegments.map((segment, index) => renderSegment(segment, `op-${index}`)), { style: { display: 'block'} }),
+                                            tray.flex([
+                                                tray.button({ label: followedThreads.get()[thread.id] ? 'Following' : 'Follow', intent: followedThreads.get()[thread.id] ? 'primary-subtle' : 'gray-subtle', size: 'sm', onClick: ctx.eventHandler(`follow-thread-${thread.id}`, () => toggleFollowThread(thread)) }),
+                                                ...(isAuthor ? [
                                                     tray.button({ label: 'Edit', intent: 'gray-subtle', size: 'sm', onClick: ctx.eventHandler(`edit-thread-${thread.id}`, () => {
+                                                        beforeComposerOpens();
                                                         threadTitleInputRef.setValue(thread.title);
                                                         threadBodyInputRef.setValue(thread.body.replace(/<br>/g, '\n'));
                                                         view.set('edit-thread');
                                                     })}),
                                                     tray.button({ label: 'Delete', intent: 'alert-subtle', size: 'sm', onClick: ctx.eventHandler(`delete-thread-${thread.id}`, () => actionConfirmation.set({ message: "Are you sure you want to delete this discussion?", onConfirm: () => handleDeleteThread(thread.id) }))})
-                                                ], { style: { gap: 2, marginTop: '8px' } })
-                                            ] : [])
+                                                ] : [])
+                                            ], { style: { gap: 2, marginTop: '8px' } })
                                         ], { style: { flexGrow: 1, gap: 1, minWidth: 0 } })
                                     ], { style: { gap: 3, alignItems: 'start' } })
                                 ], { style: { padding: '12px', background: 'rgba(255, 255, 255, 0.03)', borderRadius: '8px', marginTop: '12px' } }),
 
                                 tray.div([], { style: { borderTop: '1px solid #2D3748', marginTop: '20px', marginBottom: '10px' } }),
+                                ...(spoilerShieldActive.get() ? [
+                                    tray.flex([
+                                        tray.text({ text: `This thread is past your progress (${progressUnit()} ${watchProgress.get()}), so comments start collapsed.`, size: 'sm', color: 'gray' }),
+                                        tray.button({ label: "Reveal all", size: 'sm', intent: 'gray-subtle', onClick: "reveal-all-comments" })
+                                    ], { style: { justifyContent: 'space-between', alignItems: 'center', gap: 2, padding: '8px', borderRadius: '4px', backgroundColor: 'rgba(255, 200, 0, 0.08)' } })
+                                ] : []),
                                 tray.flex([
-                                    tray.button({ label: "Post a new comment", intent: "primary", onClick: ctx.eventHandler(`reply-to-thread`, () => { isReplyingToThread.set(!isReplyingToThread.get()); replyingToCommentId.set(null); editingCommentId.set(null); isSubmitting.set(false); }) }),
+                                    tray.button({ label: "Post a new comment", intent: "primary", onClick: ctx.eventHandler(`reply-to-thread`, () => { beforeComposerOpens(); isReplyingToThread.set(!isReplyingToThread.get()); replyingToCommentId.set(null); editingCommentId.set(null); isSubmitting.set(false); }) }),
                                     tray.flex([
                                         tray.text({ text: "Sort:", size: "sm", color: "gray" }),
-                                        tray.button({ label: "Newest", size: 'sm', intent: commentSort.get() === 'ID_DESC' ? 'primary-subtle' : 'gray-subtle', onClick: ctx.eventHandler('sort-new', () => commentSort.set('ID_DESC')) }),
-                                        tray.button({ label: "Oldest", size: 'sm', intent: commentSort.get() === 'ID' ? 'primary-subtle' : 'gray-subtle', onClick: ctx.eventHandler('sort-old', () => commentSort.set('ID')) }),
-                                    ], { style: { gap: 1, alignItems: 'center' } })
-                                ], { style: { justifyContent: 'space-between', alignItems: 'center', marginTop: '10px', marginBottom: '10px' } }),
+                                        ...commentSortOptions.map(option =>
+                                            tray.button({ label: option.label, size: 'sm', intent: commentSort.get() === option.value ? 'primary-subtle' : 'gray-subtle', onClick: ctx.eventHandler(`sort-comments-${option.value}`, () => setCommentSort(option.value)) })
+                                        ),
+                                        tray.button({ label: isFiltering ? "Filter •" : "Filter", size: 'sm', intent: isFilterBarOpen.get() || isFiltering ? 'primary-subtle' : 'gray-subtle', onClick: "toggle-filter-bar" }),
+                                    ], { style: { gap: 1, alignItems: 'center', flexWrap: 'wrap', justifyContent: 'flex-end' } })
+                                ], { style: { justifyContent: 'space-between', alignItems: 'center', gap: 2, marginTop: '10px', marginBottom: '10px' } }),
+                                ...(!isServerCommentSort(commentSort.get()) && commentsHasNextPage.get() ? [
+                                    tray.text({ text: isLoadingAllComments.get() ? "Loading every page so the whole thread can be sorted..." : "Only loaded pages are sorted.", size: 'sm', color: 'gray', style: { marginBottom: '8px' } })
+                                ] : []),
+
+                                ...(isFilterBarOpen.get() ? [tray.stack([
+                                    tray.flex([
+                                        tray.div([tray.input({ placeholder: "Search loaded comments...", fieldRef: commentSearchInputRef })], { style: { flexGrow: 1 } }),
+                                        tray.div([tray.input({ placeholder: "Author", fieldRef: commentAuthorInputRef })], { style: { width: '160px' } }),
+                                        tray.button({ label: "Apply", size: 'sm', intent: 'primary', onClick: "apply-comment-filter" }),
+                                        tray.button({ label: "Clear", size: 'sm', intent: 'gray-subtle', disabled: !isFiltering, onClick: "clear-comment-filter" })
+                                    ], { style: { gap: 2, alignItems: 'center' } }),
+                                    tray.flex([
+                                        tray.button({ label: "Only mine", size: 'sm', intent: filter.mineOnly ? 'primary-subtle' : 'gray-subtle', disabled: !me, onClick: ctx.eventHandler('filter-mine', () => commentFilter.set(f => ({ ...f, mineOnly: !f.mineOnly }))) }),
+                                        tray.button({ label: "Has spoilers", size: 'sm', intent: filter.spoilers ? 'primary-subtle' : 'gray-subtle', onClick: ctx.eventHandler('filter-spoilers', () => commentFilter.set(f => ({ ...f, spoilers: !f.spoilers }))) }),
+                                        tray.button({ label: "Has images", size: 'sm', intent: filter.images ? 'primary-subtle' : 'gray-subtle', onClick: ctx.eventHandler('filter-images', () => commentFilter.set(f => ({ ...f, images: !f.images }))) }),
+                                        ...(commentsHasNextPage.get() ? [tray.button({ label: isLoadingAllComments.get() ? "Loading all pages..." : "Load all pages", size: 'sm', intent: 'gray-subtle', disabled: isLoadingAllComments.get(), onClick: "load-all-comments" })] : [])
+                                    ], { style: { gap: 1, alignItems: 'center', flexWrap: 'wrap' } }),
+                                    ...(isFiltering && currentComments ? [tray.text({
+                                        text: `${countMatchingComments(baseComments, matchesFilter)} of ${countMatchingComments(baseComments, () => true)} loaded comments match${commentsHasNextPage.get() ? ' · more pages not loaded yet' : ''}`,
+                                        size: 'sm',
+                                        color: 'gray'
+                                    })] : [])
+                                ], { style: { gap: 2, padding: '8px', borderRadius: '4px', backgroundColor: 'rgba(255, 255, 255, 0.03)', marginBottom: '10px' } })] : []),
 
                                 ...(isReplyingToThread.get() ? [tray.stack([
+                                    ...renderDraftPrompt({ kind: 'comment', threadId: thread.id }),
                                     renderToolbar(replyInputRef),
                                     tray.input({ placeholder: "Write a new comment...", fieldRef: replyInputRef, textarea: true, onSelect: "inputSelectionChange" }),
+                                    ...renderComposerPreview(replyInputRef),
                                     tray.flex([
                                         tray.button({ label: isSubmitting.get() ? "Sending..." : "Post Comment", intent: "primary", disabled: isSubmitting.get(), onClick: ctx.eventHandler(`send-reply-thread`, () => handlePostReply(replyInputRef.current!)) }),
                                         tray.button({ label: "Cancel", intent: "gray", onClick: "cancel-reply" })
                                     ], { style: { gap: 2, justifyContent: 'flex-end' }})
                                 ], { style: { marginTop: '8px' }})] : []),
 
-                                ...(isLoading.get() && !currentComments ? Array(3).fill(0).map(() => renderCommentSkeleton()) : []),
-                                ...(currentComments && currentComments.length > 0 ? currentComments.map(comment => renderComment(comment)) : []),
-                                ...(currentComments && currentComments.length === 0 && !isLoading.get() ? [tray.text({ text: "No comments yet. Be the first to post!", align: 'center', color: 'gray', style: { marginTop: '20px' } })] : []),
-                                ...(currentComments && currentComments.length > 0 && !commentsHasNextPage.get() && !isLoading.get() ? [tray.flex([tray.text({ text: "End of Discussion", color: 'gray', size: 'sm' })], { style: { justifyContent: 'center', marginTop: '20px' } })] : []),
-                                ...(commentsHasNextPage.get() ? [tray.button({ label: isLoading.get() ? "Loading..." : "Load More", intent: "primary-subtle", disabled: isLoading.get(), onClick: "load-more-comments", style: { marginTop: '12px' } })] : [])
+                                ...(isLoadingComments.get() && !currentComments ? Array(3).fill(0).map(() => renderCommentSkeleton()) : []),
+                                ...(focusedComment ? [
+                                    tray.flex([
+                                        tray.button({ label: "← Back to all comments", intent: 'gray-subtle', size: 'sm', onClick: ctx.eventHandler('unfocus-comment', () => { focusedCommentId.set(null); highlightedCommentId.set(null); }) }),
+                                        tray.text({ text: highlightedCommentId.get() !== null ? "Showing the comment in context" : `Continuing a reply chain by ${focusedComment.user.name}`, size: 'sm', color: 'gray' })
+                                    ], { style: { alignItems: 'center', gap: 2, marginTop: '8px' } }),
+                                ] : []),
+                                ...(newCommentCount > 0 && !isFiltering ? [
+                                    tray.flex([
+                                        tray.text({ text: `${newCommentCount} new ${newCommentCount === 1 ? 'comment' : 'comments'} since your last visit`, size: 'sm', style: { color: '#63B3ED' } }),
+                                        tray.button({ label: "Jump to first unread", size: 'sm', intent: 'primary-subtle', onClick: "jump-to-unread" })
+                                    ], { style: { justifyContent: 'space-between', alignItems: 'center', gap: 2, padding: '8px', borderRadius: '4px', backgroundColor: 'rgba(99, 179, 237, 0.08)' } })
+                                ] : []),
+                                ...renderCommentList(),
+                                ...(isFiltering && visibleComments.length === 0 && currentComments && currentComments.length > 0 ? [tray.text({ text: "No loaded comments match these filters.", align: 'center', color: 'gray', style: { marginTop: '20px' } })] : []),
+                                ...(currentComments && currentComments.length === 0 && !isLoadingComments.get() ? [tray.text({ text: "No comments yet. Be the first to post!", align: 'center', color: 'gray', style: { marginTop: '20px' } })] : []),
+                                ...(!focusedComment && currentComments && currentComments.length > 0 && !commentsHasNextPage.get() && !isLoadingComments.get() ? [tray.flex([tray.text({ text: "End of Discussion", color: 'gray', size: 'sm' })], { style: { justifyContent: 'center', marginTop: '20px' } })] : []),
+                                ...(!focusedComment && commentsHasNextPage.get() ? [tray.button({ label: isLoadingComments.get() ? "Loading..." : "Load More", intent: "primary-subtle", disabled: isLoadingComments.get(), onClick: "load-more-comments", style: { marginTop: '12px' } })] : [])
                             ], {})
                         ], { style: { flexGrow: 1, overflowY: 'auto' } })
                     ], { style: { height: '100%', display: 'flex', flexDirection: 'column' } });
                 }
 
                 const epThreads = episodeDiscussions.get();
-                const genThreads = displayedGeneralDiscussions.get();
+                const genThreads = generalDiscussions.get();
+                // With related seasons included, episode buttons are grouped per season in release order.
+                // On a manga the same grid holds chapter threads, followed by volume threads. Specials and
+                // volumes sort after the numbered entries, and threads sharing a label share one button.
+                const franchise = franchiseMedia.get();
+                const releaseOrder = (thread: Thread) => thread.chapterRange
+                    ? (thread.chapterRange.kind === 'volume' ? 1e6 : 0) + thread.chapterRange.start
+                    : thread.episode ? (thread.episode.special ? 1e6 : 0) + thread.episode.start : thread.episodeNumber;
+                const releaseLabel = (thread: Thread) => thread.chapterRange ? formatChapterRange(thread.chapterRange)
+                    : thread.episode ? formatEpisodeLabel(thread.episode) : `${thread.episodeNumber}`;
+                const renderEpisodeButtons = (threads: Thread[]) => {
+                    const groups: { label: string; threads: Thread[] }[] = [];
+                    [...threads].sort((a, b) => releaseOrder(a) - releaseOrder(b)).forEach(thread => {
+                        const label = releaseLabel(thread);
+                        const group = groups.find(g => g.label === label);
+                        if (group) group.threads.push(thread);
+                        else groups.push({ label, threads: [thread] });
+                    });
+                    return tray.flex(groups.map(group => {
+                        const first = group.threads[0];
+                        const isLocked = group.threads.every(thread => isAheadOfProgress(thread));
+                        const unread = group.threads.reduce((total, thread) => total + unreadCount(thread), 0);
+                        const count = group.threads.length > 1 ? ` (${group.threads.length})` : '';
+                        const label = `${isLocked ? '🔒 ' : ''}${group.label}${count}`;
+                        return tray.button({
+                            label: unread > 0 ? `${label} · ${unread} new` : label,
+                            intent: isLocked ? "gray-subtle" : "primary-subtle",
+                            style: { minWidth: '40px', justifyContent: 'center', ...(unread > 0 ? { boxShadow: 'inset 0 0 0 1px #63B3ED' } : {}) },
+                            onClick: ctx.eventHandler(`select-thread-ep-${first.id}`, () => group.threads.length > 1 ? releaseThreadPicker.set(group) : selectThread(first))
+                        });
+                    }), { style: { gap: 2, flexWrap: 'wrap', justifyContent: 'center', marginTop: '8px' } });
+                };
 
                 if (epThreads.length > 0 || genThreads.length > 0) {
-                    const sortOptions = [
-                        { label: "Last Reply", value: 'REPLIED_AT_DESC' },
-                        { label: "Newest", value: 'CREATED_AT_DESC' },
-                        { label: "Replies", value: 'REPLY_COUNT_DESC' },
-                        { label: "Views", value: 'VIEW_COUNT_DESC' }
-                    ];
-                    const currentSortLabel = sortOptions.find(opt => opt.value === threadSort.get())?.label || "Sort by";
-
                     return tray.stack([
                         tray.div([
                             tray.stack([
-                                tray.text({ text: "Episode Discussions", size: "lg", align: "center", weight: "semibold" }),
-                                tray.flex(
-                                    epThreads.sort((a, b) => a.episodeNumber - b.episodeNumber).map(thread =>
-                                        tray.button({ label: `${thread.episodeNumber}`, intent: "primary-subtle", style: { minWidth: '40px', justifyContent: 'center' }, onClick: ctx.eventHandler(`select-thread-ep-${thread.id}`, () => { comments.set(null); isLoading.set(true); selectedThread.set(thread); view.set('thread'); }) })
-                                    ),
-                                    { style: { gap: 2, flexWrap: 'wrap', justifyContent: 'center', marginTop: '8px' } }
-                                ),
+                                tray.text({ text: isManga() ? "Chapter Discussions" : "Episode Discussions", size: "lg", align: "center", weight: "semibold" }),
+                                tray.flex([
+                                    tray.text({ text: watchProgress.get() !== null ? `${isManga() ? 'Read' : 'Watched'}: ${watchProgress.get()} ${progressUnit()}(s)` : "Not on your list", size: 'sm', color: 'gray' }),
+                                    tray.button({ label: `Spoiler safety: ${spoilerSafety.get() ? 'On' : 'Off'}`, size: 'sm', intent: spoilerSafety.get() ? 'primary-subtle' : 'gray-subtle', onClick: "toggle-spoiler-safety" }),
+                                    renderRefreshControl(threadsCachedAt.get(), "refresh-threads", isRefreshing.get(), isLoading.get()),
+                                    renderNotificationsButton(),
+                                    renderDraftsButton(),
+                                    tray.button({ label: `Related seasons: ${includeRelatedMedia.get() ? 'On' : 'Off'}`, size: 'sm', intent: includeRelatedMedia.get() ? 'primary-subtle' : 'gray-subtle', onClick: "toggle-related-media" }),
+                                    ...(isManga() ? [] : [tray.button({
+                                        label: `After an episode: ${EPISODE_FINISHED_ACTION_LABELS[episodeFinishedAction.get()]}`,
+                                        size: 'sm',
+                                        intent: episodeFinishedAction.get() === 'off' ? 'gray-subtle' : 'primary-subtle',
+                                        onClick: "cycle-episode-finished-action"
+                                    })]),
+                                    tray.button({ label: "Browse forum", size: 'sm', intent: 'gray-subtle', onClick: "open-forum-browser" })
+                                ], { style: { gap: 2, alignItems: 'center', justifyContent: 'center', flexWrap: 'wrap' } }),
+                                ...(franchise ? franchise.filter(media => epThreads.some(thread => thread.sourceMedia?.id === media.id)).map(media => tray.stack([
+                                    tray.text({ text: media.id === currentMediaId.get() ? `${media.title} (this season)` : media.title, size: 'sm', weight: 'semibold', style: { textAlign: 'center', color: media.id === currentMediaId.get() ? '#63B3ED' : '#A0AEC0' } }),
+                                    renderEpisodeButtons(epThreads.filter(thread => thread.sourceMedia?.id === media.id))
+                                ], { style: { gap: 1, marginTop: '8px' } })) : [renderEpisodeButtons(epThreads)]),
                                 tray.div([], { style: { borderTop: '1px solid #2D3748', marginTop: '10px', marginBottom: '10px' } }),
                                 tray.flex([
                                     tray.text({ text: "General Discussions", size: "lg", weight: "semibold" }),
                                     tray.flex([
-                                        tray.stack([
-                                            tray.button({
-                                                label: `Sort by: ${currentSortLabel}`,
-                                                size: 'sm',
-                                                intent: 'gray-subtle',
-                                                onClick: ctx.eventHandler('toggle-sort-menu', () => isSortMenuOpen.set(!isSortMenuOpen.get()))
-                                            }),
-                                            ...(isSortMenuOpen.get() ? [
-                                                tray.button({
-                                                    label: ' ',
-                                                    onClick: ctx.eventHandler('close-sort-backdrop', () => isSortMenuOpen.set(false)),
-                                                    style: { position: 'fixed', top: 0, left: 0, width: '100%', height: '100%', background: 'transparent', border: 'none', zIndex: 40 }
-                                                }),
-                                                tray.stack(
-                                                    sortOptions.map(option => tray.button({
-                                                        label: option.label,
-                                                        size: 'sm',
-                                                        intent: threadSort.get() === option.value ? 'primary' : 'gray',
-                                                        onClick: ctx.eventHandler(`sort-${option.value}`, () => {
-                                                            threadSort.set(option.value);
-                                                            isSortMenuOpen.set(false);
-                                                        }),
-                                                        style: { justifyContent: 'flex-start', width: '100%' }
-                                                    })),
-                                                    {
-                                                        style: {
-                                                            position: 'absolute',
-                                                            top: '100%',
-                                                            right: 0,
-                                                            marginTop: '4px',
-                                                            backgroundColor: '#2D3748',
-                                                            border: '1px solid #4A5568',
-                                                            borderRadius: '8px',
-                                                            padding: '4px',
-                                                            zIndex: 50,
-                                                            width: '160px',
-                                                            boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)'
-                                                        }
-                                                    }
-                                                )
-                                            ] : [])
-                                        ], { style: { position: 'relative' } }),
+                                        renderThreadSortMenu(),
                                         tray.button({ label: "Create New Discussion", intent: "primary-subtle", size: "sm", onClick: "go-to-create-view" })
                                     ], { style: { alignItems: 'center', gap: 3 }})
                                 ], { style: { justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' } }),
-                                ...genThreads.map(thread =>
-                                    tray.stack([
-                                        tray.flex([
-                                            tray.div([], { style: { width: '40px', height: '40px', borderRadius: '50%', backgroundImage: `url(${thread.user.avatar.large})`, backgroundSize: 'cover', backgroundPosition: 'center', flexShrink: 0 } }),
-                                            tray.stack([
-                                                tray.text({ text: thread.title, weight: 'semibold' }),
-                                                tray.flex([
-                                                    tray.text({ text: `Created by ${thread.user.name}`, size: 'sm', color: 'gray' }),
-                                                    tray.flex([
-                                                        renderStatWithIcon(commentsIconSvg, thread.replyCount),
-                                                        tray.text({ text: '·', size: 'sm', color: 'gray' }),
-                                                        renderStatWithIcon(eyeIconSvg, thread.viewCount || 0),
-                                                        tray.text({ text: '·', size: 'sm', color: 'gray' }),
-                                                        tray.text({ text: `Last by ${thread.replyUser?.name || 'N/A'} ${formatTimeAgo(thread.repliedAt)}`, size: 'sm', color: 'gray' })
-                                                    ], { style: { alignItems: 'center', gap: 2, flexWrap: 'nowrap' } })
-                                                ], { style: { justifyContent: 'space-between', alignItems: 'center', color: '#A0AEC0', flexWrap: 'nowrap', whiteSpace: 'nowrap' } })
-                                            ], { style: { flexGrow: 1, gap: 1 } })
-                                        ], { style: { gap: 3, alignItems: 'center' } }),
-                                        tray.button({
-                                            label: ' ',
-                                            style: { position: 'absolute', top: 0, left: 0, width: '100%', height: '100%', background: 'transparent', border: 'none', color: 'transparent', cursor: 'pointer' },
-                                            onClick: ctx.eventHandler(`select-thread-${thread.id}`, () => { comments.set(null); isLoading.set(true); selectedThread.set(thread); view.set('thread'); })
-                                        })
-                                    ], {
-                                        style: { position: 'relative', padding: '10px 5px', borderBottom: '1px solid #2D3748' },
-                                        hoverStyle: { backgroundColor: 'rgba(255, 255, 255, 0.05)' }
-                                    })
-                                ),
+                                ...genThreads.map(thread => renderThreadRow(thread)),
                                 ...(generalDiscussionsHasNextPage.get() ? [
                                     tray.button({
-                                        label: isLoading.get() ? "Loading..." : "Load More",
+                                        label: isLoadingMoreThreads.get() ? "Loading..." : "Load More",
                                         intent: "primary-subtle",
-                                        disabled: isLoading.get(),
+                                        disabled: isLoadingMoreThreads.get(),
                                         onClick: 'load-more-general-threads',
                                         style: { marginTop: '12px', width: '100%' }
                                     })
@@ -1248,9 +4186,25 @@ function init() {
 
             const actionConfirm = actionConfirmation.get();
             const linkConfirm = linkConfirmation.get();
-            const viewedImageUrl = imageToView.get();
+            const linkedForumPost = linkConfirm ? parseForumLink(linkConfirm.url) : null;
+            const sharedLink = sharedCommentLink.get();
+            const mediaDialog = mediaInsertDialog.get();
+            const picker = releaseThreadPicker.get();
+            const viewedImage = imageToView.get();
+            const viewerImages = viewedImage ? getViewerImages(viewedImage) : [];
+            const viewerIndex = viewedImage ? Math.max(0, viewerImages.indexOf(viewedImage.url)) : 0;
+            const showViewerImage = (offset: number) => {
+                if (!viewedImage) return;
+                const nextUrl = viewerImages[(viewerIndex + offset + viewerImages.length) % viewerImages.length];
+                imageToView.set({ ...viewedImage, url: nextUrl, zoom: 1 });
+            };
             return tray.div([
                 mainContent,
+                ...(throttleSecondsLeft.get() > 0 ? [
+                    tray.flex([
+                        tray.text({ text: `AniList is throttling requests, retrying in ${throttleSecondsLeft.get()}s…`, size: 'sm' })
+                    ], { style: { position: 'absolute', bottom: '8px', left: '50%', transform: 'translateX(-50%)', padding: '6px 12px', borderRadius: '8px', backgroundColor: '#744210', color: '#FEFCBF', zIndex: 50, whiteSpace: 'nowrap' } })
+                ] : []),
                 ...(linkConfirm ? [
                     tray.div([
                         tray.button({
@@ -1271,6 +4225,11 @@ function init() {
                                             className: "bg-red-600 hover:bg-red-700 text-white font-medium text-sm rounded-md px-4 py-2 transition-colors no-underline inline-flex items-center justify-center",
                                         })
                                     ], { onClick: ctx.eventHandler('confirm-open-link', () => ctx.setTimeout(() => linkConfirmation.set(null), 150)) }),
+                                    ...(linkedForumPost ? [tray.button({
+                                        label: "Open in tray",
+                                        intent: "primary",
+                                        onClick: ctx.eventHandler('open-link-in-tray', () => { linkConfirmation.set(null); openForumLink(linkedForumPost); })
+                                    })] : []),
                                     tray.button({
                                         label: "Cancel",
                                         intent: "gray",
@@ -1282,7 +4241,85 @@ function init() {
                             style: { background: '#111827', border: '1px solid #374151', padding: '20px', borderRadius: '8px', boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)', minWidth: '300px', maxWidth: '90%', position: 'relative', zIndex: 1 },
                             onClick: ctx.eventHandler('dialog-click-trap', () => {})
                         })
-                    ], { style: { position: 'fixed', top: 0, left: 0, right: 0, bottom: 0, background: 'rgba(0, 0, 0, 0.7)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 100 } })
+                    ], { style: { position: 'fixed', top: 0, left: 0, right: 0, bottom: 0, background: 'rgba(0, 0, 0, 0.7)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 120 } })
+                ] : []),
+                ...(sharedLink ? [
+                    tray.div([
+                        tray.button({
+                            label: " ",
+                            onClick: ctx.eventHandler('close-share-backdrop', () => sharedCommentLink.set(null)),
+                            style: { position: 'absolute', top: 0, left: 0, width: '100%', height: '100%', background: 'transparent', border: 'none', zIndex: 0, cursor: 'default' }
+                        }),
+                        tray.div([
+                            tray.stack([
+                                tray.text({ text: "Link to this comment", weight: 'semibold', size: 'lg' }),
+                                tray.text({ text: "Select the link and copy it.", size: 'sm', color: 'gray' }),
+                                tray.input({ fieldRef: sharedLinkInputRef }),
+                                tray.flex([
+                                    tray.anchor({
+                                        text: "Open on AniList",
+                                        href: sharedLink,
+                                        target: "_blank",
+                                        className: "bg-gray-700 hover:bg-gray-600 text-white font-medium text-sm rounded-md px-4 py-2 transition-colors no-underline inline-flex items-center justify-center",
+                                    }),
+                                    tray.button({ label: "Close", intent: "gray", onClick: ctx.eventHandler('close-share-link', () => sharedCommentLink.set(null)) })
+                                ], { style: { gap: 2, justifyContent: 'center', marginTop: '12px' }})
+                            ], { style: { gap: 2, alignItems: 'stretch' }})
+                        ], {
+                            style: { background: '#111827', border: '1px solid #374151', padding: '20px', borderRadius: '8px', boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)', minWidth: '360px', maxWidth: '90%', position: 'relative', zIndex: 1 },
+                            onClick: ctx.eventHandler('share-dialog-click-trap', () => {})
+                        })
+                    ], { style: { position: 'fixed', top: 0, left: 0, right: 0, bottom: 0, background: 'rgba(0, 0, 0, 0.7)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 120 } })
+                ] : []),
+                ...(picker ? [
+                    tray.div([
+                        tray.button({
+                            label: " ",
+                            onClick: ctx.eventHandler('close-picker-backdrop', () => releaseThreadPicker.set(null)),
+                            style: { position: 'absolute', top: 0, left: 0, width: '100%', height: '100%', background: 'transparent', border: 'none', zIndex: 0, cursor: 'default' }
+                        }),
+                        tray.div([
+                            tray.stack([
+                                tray.text({ text: `${picker.threads.length} threads for ${picker.threads[0].chapterRange?.kind === 'chapter' ? 'chapter ' : picker.threads[0].chapterRange || picker.threads[0].episode?.special ? '' : 'episode '}${picker.label}`, weight: 'semibold', size: 'lg' }),
+                                ...picker.threads.map(thread => tray.button({
+                                    label: `${isAheadOfProgress(thread) ? '🔒 ' : ''}${thread.title} · ${thread.replyCount} ${thread.replyCount === 1 ? 'reply' : 'replies'} · by ${thread.user.name}`,
+                                    intent: 'gray-subtle',
+                                    style: { justifyContent: 'flex-start', width: '100%', whiteSpace: 'normal', textAlign: 'left' },
+                                    onClick: ctx.eventHandler(`pick-release-thread-${thread.id}`, () => { releaseThreadPicker.set(null); selectThread(thread); })
+                                })),
+                                tray.flex([
+                                    tray.button({ label: "Cancel", intent: "gray", onClick: ctx.eventHandler('cancel-release-picker', () => releaseThreadPicker.set(null)) })
+                                ], { style: { gap: 2, justifyContent: 'center', marginTop: '12px' }})
+                            ], { style: { gap: 2, alignItems: 'stretch' }})
+                        ], {
+                            style: { background: '#111827', border: '1px solid #374151', padding: '20px', borderRadius: '8px', boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)', minWidth: '360px', maxWidth: '90%', maxHeight: '80%', overflowY: 'auto', position: 'relative', zIndex: 1 },
+                            onClick: ctx.eventHandler('picker-click-trap', () => {})
+                        })
+                    ], { style: { position: 'fixed', top: 0, left: 0, right: 0, bottom: 0, background: 'rgba(0, 0, 0, 0.7)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 120 } })
+                ] : []),
+                ...(mediaDialog ? [
+                    tray.div([
+                        tray.button({
+                            label: " ",
+                            onClick: ctx.eventHandler('close-media-backdrop', () => mediaInsertDialog.set(null)),
+                            style: { position: 'absolute', top: 0, left: 0, width: '100%', height: '100%', background: 'transparent', border: 'none', zIndex: 0, cursor: 'default' }
+                        }),
+                        tray.div([
+                            tray.stack([
+                                tray.text({ text: MEDIA_INSERT_DIALOG_TEXT[mediaDialog.kind].title, weight: 'semibold', size: 'lg' }),
+                                tray.input({ fieldRef: mediaUrlInputRef, placeholder: MEDIA_INSERT_DIALOG_TEXT[mediaDialog.kind].placeholder }),
+                                ...(mediaDialog.kind === 'image' ? [tray.input({ fieldRef: mediaWidthInputRef, placeholder: "Width, optional (300 or 50%)" })] : []),
+                                ...(mediaDialog.error ? [tray.text({ text: mediaDialog.error, size: 'sm', color: 'red' })] : []),
+                                tray.flex([
+                                    tray.button({ label: "Insert", intent: "primary", onClick: ctx.eventHandler('confirm-media-insert', confirmMediaDialog) }),
+                                    tray.button({ label: "Cancel", intent: "gray", onClick: ctx.eventHandler('cancel-media-insert', () => mediaInsertDialog.set(null)) })
+                                ], { style: { gap: 2, justifyContent: 'center', marginTop: '12px' }})
+                            ], { style: { gap: 2, alignItems: 'stretch' }})
+                        ], {
+                            style: { background: '#111827', border: '1px solid #374151', padding: '20px', borderRadius: '8px', boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)', minWidth: '360px', maxWidth: '90%', position: 'relative', zIndex: 1 },
+                            onClick: ctx.eventHandler('media-dialog-click-trap', () => {})
+                        })
+                    ], { style: { position: 'fixed', top: 0, left: 0, right: 0, bottom: 0, background: 'rgba(0, 0, 0, 0.7)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 120 } })
                 ] : []),
                 ...(actionConfirm ? [
                     tray.div([
@@ -1316,7 +4353,7 @@ function init() {
                         })
                     ], { style: { position: 'fixed', top: 0, left: 0, right: 0, bottom: 0, background: 'rgba(0, 0, 0, 0.7)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 100 } })
                 ] : []),
-                ...(viewedImageUrl ? [
+                ...(viewedImage ? [
                     tray.div([
                         tray.button({
                             label: ' ',
@@ -1327,26 +4364,50 @@ function init() {
                             }
                         }),
                         tray.div([
-                            tray.button({
-                                label: ' ',
-                                onClick: ctx.eventHandler('close-image-view-imageclick', () => imageToView.set(null)),
+                            tray.div([
+                                tray.button({
+                                    label: ' ',
+                                    onClick: ctx.eventHandler('close-image-view-imageclick', () => imageToView.set(null)),
+                                    style: {
+                                        position: 'absolute', top: 0, left: 0, width: '100%', height: '100%',
+                                        background: 'transparent', border: 'none', cursor: 'pointer', zIndex: 1,
+                                    }
+                                })
+                            ], {
                                 style: {
-                                    position: 'absolute', top: 0, left: 0, width: '100%', height: '100%',
-                                    background: 'transparent', border: 'none', cursor: 'pointer', zIndex: 1,
-                                }
+                                    position: 'relative',
+                                    width: '100%',
+                                    height: '100%',
+                                    backgroundImage: `url("${viewedImage.url}")`,
+                                    backgroundSize: 'contain',
+                                    backgroundPosition: 'center',
+                                    backgroundRepeat: 'no-repeat',
+                                    transform: `scale(${viewedImage.zoom})`,
+                                    transition: 'transform 0.15s ease',
+                                },
                             })
                         ], {
                             style: {
                                 position: 'relative',
                                 width: '90vw',
-                                height: '90vh',
-                                backgroundImage: `url("${viewedImageUrl}")`,
-                                backgroundSize: 'contain',
-                                backgroundPosition: 'center',
-                                backgroundRepeat: 'no-repeat',
+                                height: '80vh',
+                                overflow: 'hidden',
                                 zIndex: 1,
                             },
                         }),
+                        tray.flex([
+                            ...(viewerImages.length > 1 ? [
+                                tray.button({ label: '‹ Prev', size: 'sm', intent: 'gray', onClick: ctx.eventHandler('image-view-prev', () => showViewerImage(-1)) }),
+                                tray.text({ text: `${viewerIndex + 1} / ${viewerImages.length}`, size: 'sm', style: { color: 'white', minWidth: '50px', textAlign: 'center' } }),
+                                tray.button({ label: 'Next ›', size: 'sm', intent: 'gray', onClick: ctx.eventHandler('image-view-next', () => showViewerImage(1)) }),
+                            ] : []),
+                            tray.button({ label: '−', size: 'sm', intent: 'gray', disabled: viewedImage.zoom <= 1, onClick: ctx.eventHandler('image-view-zoom-out', () => imageToView.set({ ...viewedImage, zoom: Math.max(1, viewedImage.zoom - 0.5) })) }),
+                            tray.text({ text: `${Math.round(viewedImage.zoom * 100)}%`, size: 'sm', style: { color: 'white', minWidth: '40px', textAlign: 'center' } }),
+                            tray.button({ label: '+', size: 'sm', intent: 'gray', disabled: viewedImage.zoom >= 4, onClick: ctx.eventHandler('image-view-zoom-in', () => imageToView.set({ ...viewedImage, zoom: Math.min(4, viewedImage.zoom + 0.5) })) }),
+                            tray.button({ label: 'This comment', size: 'sm', intent: viewedImage.scope === 'comment' ? 'primary' : 'gray', onClick: ctx.eventHandler('image-view-scope-comment', () => imageToView.set({ ...viewedImage, scope: 'comment' })) }),
+                            tray.button({ label: 'Whole thread', size: 'sm', intent: viewedImage.scope === 'thread' ? 'primary' : 'gray', onClick: ctx.eventHandler('image-view-scope-thread', () => imageToView.set({ ...viewedImage, scope: 'thread' })) }),
+                            tray.button({ label: 'Open Original', size: 'sm', intent: 'primary-subtle', onClick: ctx.eventHandler('image-view-open-original', () => linkConfirmation.set({ url: viewedImage.url, message: "Are you sure you want to open this image?" })) }),
+                        ], { style: { position: 'relative', zIndex: 2, gap: 2, alignItems: 'center', justifyContent: 'center', flexWrap: 'wrap', marginTop: '12px' } }),
                         tray.button({
                             label: 'X',
                             onClick: ctx.eventHandler('close-image-view-button', () => imageToView.set(null)),
@@ -1359,7 +4420,7 @@ function init() {
                     ], {
                         style: {
                             position: 'fixed', top: 0, left: 0, right: 0, bottom: 0,
-                            background: 'rgba(0, 0, 0, 0.8)', display: 'flex',
+                            background: 'rgba(0, 0, 0, 0.8)', display: 'flex', flexDirection: 'column',
                             alignItems: 'center', justifyContent: 'center', zIndex: 110
                         }
                     })
@@ -1369,24 +4430,50 @@ function init() {
 
         // --- NAVIGATION ---
         ctx.screen.onNavigate((e) => {
-            if (e.pathname === "/entry" && !!e.searchParams.id) {
+            // Anime and manga entry pages; AniList media IDs are unique across both.
+            if ((e.pathname === "/entry" || e.pathname === "/manga/entry") && !!e.searchParams.id) {
                 const id = parseInt(e.searchParams.id);
                 if (currentMediaId.get() !== id) {
+                    saveActiveDraft();
                     currentMediaId.set(id);
+                    currentMediaType.set(e.pathname === "/manga/entry" ? 'MANGA' : 'ANIME');
+                    isForumBrowserOpen.set(false);
                     selectedThread.set(null);
+                    focusedCommentId.set(null);
                     view.set('list');
                     revealedSpoilers.set({});
+                    spoilerShieldActive.set(false);
+                    watchProgress.set(null);
                     replyingToCommentId.set(null);
                     editingCommentId.set(null);
                     isSubmitting.set(false);
                     commentsPage.set(1);
                     commentsHasNextPage.set(false);
-                    fetchingMediaId.set(null);
+                }
+                const pendingDraft = pendingDraftKey.get() ? drafts.get()[pendingDraftKey.get()!] : null;
+                if (pendingDraft && pendingDraft.mediaId === id) {
+                    const key = pendingDraftKey.get()!;
+                    pendingDraftKey.set(null);
+                    view.set('create');
+                    restoreDraft(key);
                 }
             } else {
                 currentMediaId.set(null);
             }
         });
+        ctx.playback.registerEventListener((e: any) => {
+            if (e.state?.mediaId) lastPlaybackState = { mediaId: e.state.mediaId, episodeNumber: e.state.episodeNumber };
+            if ((e.isVideoCompleted || e.isStreamCompleted) && lastPlaybackState) {
+                offerEpisodeThread(lastPlaybackState.mediaId, lastPlaybackState.episodeNumber);
+            }
+        });
+        $store.watch(PROGRESS_UPDATED_STORE_KEY, (update: { mediaId: number; progress: number } | null) => {
+            if (update) offerEpisodeThread(update.mediaId, update.progress);
+        });
+
         ctx.screen.loadCurrent();
+        scheduleBackgroundPoll();
+        // The first check runs right away so the badge is correct from the start.
+        pollNotifications().catch((e: any) => console.error("Failed to poll notifications:", e?.message || e));
     });
 }
@@ -0,0 +1,23 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { missingAliases } from '../src/anilist-response';
+
+// What AniList sends back for a batch of followed threads when one of them was deleted.
+const PARTIAL_RESPONSE = {
+    errors: [{ message: 'Not Found.', status: 404, locations: [{ line: 1, column: 9 }], path: ['t2'] }],
+    data: { t1: { id: 1, title: 'Episode 1 Discussion' }, t2: null, t3: { id: 3, title: 'Episode 3 Discussion' } },
+};
+
+test('a batch with deleted threads is read with those threads missing', () => {
+    assert.deepEqual(missingAliases(PARTIAL_RESPONSE), ['t2']);
+});
+
+test('404s without a path are still read as missing items', () => {
+    assert.deepEqual(missingAliases({ errors: [{ message: 'Not Found.', status: 404 }], data: { t1: null, t2: { id: 2 } } }), ['t1']);
+});
+
+test('any other error fails the whole response', () => {
+    assert.equal(missingAliases({ ...PARTIAL_RESPONSE, errors: [...PARTIAL_RESPONSE.errors, { message: 'Too Many Requests.', status: 429 }] }), null);
+    assert.equal(missingAliases({ errors: [{ message: 'Not Found.', status: 404 }], data: null }), null);
+    assert.equal(missingAliases({ errors: [{ message: 'Not Found.', status: 404, path: ['t1'] }], data: { t1: { id: 1 } } }), null);
+});
@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { collectImageUrls, hasSegmentType, parseComment, segmentsToText, splitOnMatches } from '../src/comment-parser';
+
+// Each `<name>.txt` is a comment body as AniList stores it; `<name>.json` is the
+// segment tree it must parse to. Run with UPDATE_FIXTURES=1 to rewrite the expected trees
+// after an intended change, then review the diff.
+const FIXTURES_DIR = join(dirname(fileURLToPath(import.meta.url)), 'fixtures', 'comment-parser');
+const UPDATE_FIXTURES = process.env.UPDATE_FIXTURES === '1';
+
+for (const file of readdirSync(FIXTURES_DIR).filter(name => name.endsWith('.txt')).sort()) {
+    const name = file.slice(0, -'.txt'.length);
+    test(`fixture: ${name}`, () => {
+        // The file's final newline isn't part of the comment.
+        const body = readFileSync(join(FIXTURES_DIR, file), 'utf8').replace(/\n$/, '');
+        const expectedPath = join(FIXTURES_DIR, `${name}.json`);
+        // Round-tripped so optional fields left `undefined` compare equal to their absence.
+        const actual = JSON.parse(JSON.stringify(parseComment(body)));
+        if (UPDATE_FIXTURES) writeFileSync(expectedPath, JSON.stringify(actual, null, 2) + '\n');
+        assert.deepEqual(actual, JSON.parse(readFileSync(expectedPath, 'utf8')));
+    });
+}
+
+test('empty and missing bodies parse to nothing', () => {
+    assert.deepEqual(parseComment(''), []);
+    assert.deepEqual(parseComment(null as unknown as string), []);
+});
+
+test('collectImageUrls lists images in reading order, including nested ones', () => {
+    const segments = parseComment('img(https://a.png)\n\n~!img(https://b.png)!~\n\n> img220(https://c.png)');
+    assert.deepEqual(collectImageUrls(segments), ['https://a.png', 'https://b.png', 'https://c.png']);
+});
+
+test('segmentsToText keeps readable text and drops link targets', () => {
+    const segments = parseComment('**Great** episode, see [the thread](https://anilist.co/forum/thread/1) @Someone');
+    assert.equal(segmentsToText(segments).replace(/\s+/g, ' '), 'Great episode, see the thread @Someone');
+});
+
+test('hasSegmentType finds spoilers inside other blocks', () => {
+    assert.equal(hasSegmentType(parseComment('> quoted ~!hidden!~'), ['spoiler']), true);
+    assert.equal(hasSegmentType(parseComment('no spoilers here'), ['spoiler']), false);
+});
+
+test('splitOnMatches splits case-insensitively around every match', () => {
+    assert.deepEqual(splitOnMatches('Frieren and frieren', 'FRIEREN'), [
+        { text: 'Frieren', match: true },
+        { text: ' and ', match: false },
+        { text: 'frieren', match: true },
+    ]);
+    assert.deepEqual(splitOnMatches('anything', ''), [{ text: 'anything', match: false }]);
+});
@@ -0,0 +1,69 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { classifyEpisodeTitle, formatEpisodeLabel, highestMentionedEpisode, inferSeasonOffset, type EpisodeTitleInfo } from '../src/episode-titles';
+
+type Expected = Pick<EpisodeTitleInfo, 'start' | 'end' | 'special' | 'season'> | null;
+
+// Thread titles as they appear on AniList's forum, and what each one is about.
+const TITLES: [string, Expected][] = [
+    ['Sousou no Frieren Episode 12 Discussion', { start: 12, end: 12, special: null, season: null }],
+    ['Kusuriya no Hitorigoto - Episode 24 Discussion', { start: 24, end: 24, special: null, season: null }],
+    ['Oshi no Ko S2E04 Discussion', { start: 4, end: 4, special: null, season: 2 }],
+    ['Jujutsu Kaisen Season 2 - Episode 5 Discussion', { start: 5, end: 5, special: null, season: 2 }],
+    ['Bocchi the Rock! Episodes 1-3 Discussion', { start: 1, end: 3, special: null, season: null }],
+    ['Spy x Family Ep. 12.5 Discussion', { start: 12.5, end: 12.5, special: null, season: null }],
+    ['Re:Zero Episode 0 Discussion', { start: 0, end: 0, special: null, season: null }],
+    ['Made in Abyss OVA 2 Discussion', { start: 2, end: 2, special: 'ova', season: null }],
+    ['Kaguya-sama OAD Discussion', { start: 0, end: 0, special: 'ova', season: null }],
+    ['Haikyuu!! Movie Discussion', { start: 0, end: 0, special: 'movie', season: null }],
+    ['Re:Zero Recap Special', { start: 0, end: 0, special: 'recap', season: null }],
+    // An explicit "Episode N" outweighs a special keyword elsewhere in the title.
+    ['Overlord OVA Episode 1 Discussion', { start: 1, end: 1, special: null, season: null }],
+    ['[SP] Episode 5', { start: 5, end: 5, special: null, season: null }],
+    ['Chainsaw Man Discussion Thread', null],
+    ['Spring 2024 Season Discussion', null],
+];
+
+for (const [title, expected] of TITLES) {
+    test(`classifies "${title}"`, () => {
+        const info = classifyEpisodeTitle(title);
+        assert.deepEqual(info && { start: info.start, end: info.end, special: info.special, season: info.season }, expected);
+    });
+}
+
+test('abbreviated and keyword-only titles are trusted less', () => {
+    assert.equal(classifyEpisodeTitle('Frieren Episode 3 Discussion')!.confidence, 'high');
+    assert.equal(classifyEpisodeTitle('Frieren Ep 3 Discussion')!.confidence, 'medium');
+    assert.equal(classifyEpisodeTitle('Frieren OVA Discussion')!.confidence, 'medium');
+});
+
+test('a season offset shifts absolute numbering into the season', () => {
+    const info = classifyEpisodeTitle('Shingeki no Kyojin Episode 76 Discussion', 75)!;
+    assert.deepEqual([info.start, info.seasonOffset, info.confidence], [1, 75, 'medium']);
+});
+
+const numbered = (...titles: string[]) => titles.map(title => classifyEpisodeTitle(title)!);
+
+test('inferSeasonOffset needs several threads past the season that agree', () => {
+    assert.equal(inferSeasonOffset(numbered('Episode 13', 'Episode 14', 'Episode 15'), 12), 12);
+    // One mistyped title alone says nothing about the season's numbering.
+    assert.equal(inferSeasonOffset(numbered('X Episode 30'), 12), 0);
+    // Threads that can't all fit inside the season once shifted don't agree on an offset.
+    assert.equal(inferSeasonOffset(numbered('Episode 13', 'Episode 40'), 12), 0);
+    assert.equal(inferSeasonOffset(numbered('Episode 3', 'Episode 14'), 12), 0);
+    assert.equal(inferSeasonOffset(numbered('Episode 13', 'Episode 14'), null), 0);
+});
+
+test('highestMentionedEpisode reads titles like episode threads', () => {
+    assert.equal(highestMentionedEpisode('Thoughts after Episodes 3-5?'), 5);
+    assert.equal(highestMentionedEpisode('S2E04 was peak'), 4);
+    assert.equal(highestMentionedEpisode('Where does the OVA fit in?'), 0);
+    assert.equal(highestMentionedEpisode('General Discussion'), 0);
+});
+
+test('formatEpisodeLabel', () => {
+    assert.equal(formatEpisodeLabel(classifyEpisodeTitle('Episodes 1-3')!), '1–3');
+    assert.equal(formatEpisodeLabel(classifyEpisodeTitle('Episode 0')!), '0');
+    assert.equal(formatEpisodeLabel(classifyEpisodeTitle('OVA 2')!), 'OVA 2');
+    assert.equal(formatEpisodeLabel(classifyEpisodeTitle('Special')!), 'SP');
+});